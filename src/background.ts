@@ -1,204 +1,170 @@
 // src/background.ts
-// Handles CAPTURE requests from content script and returns a screenshot dataURL of the visible tab.
-// We keep it lean (no offscreen) for the starter.
+// Answers the overlay's and the extension pages' requests (see lib/protocol.ts), e.g. CAPTURE
+// with a screenshot dataURL of the visible tab. Full page and large lasso captures scroll the
+// tab and stitch viewport slices, see lib/capture.ts.
 
-chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
-  console.log("📨 Background received message:", msg, "from sender:", sender)
-  
-  if (msg?.type === "CAPTURE") {
+import { getAuthStatus, setApiKey, signIn, signOut } from "~lib/auth"
+import { captureFullPage, captureRegion, captureVisibleTab } from "~lib/capture"
+import { initContextMenus } from "~lib/context-menus"
+import { fetchAsset } from "~lib/dom-assets"
+import { endStateCapture, forceElementState, startStateCapture } from "~lib/element-states"
+import { fingerprintTab } from "~lib/fingerprint"
+import { listTags, saveClip } from "~lib/library"
+import { getProfile } from "~lib/profiles"
+import { ProtocolError, serveRequests } from "~lib/protocol"
+import { startRecording, stopRecording } from "~lib/recording"
+import { captureClip, emulateWidth, startEmulation, stopEmulation } from "~lib/responsive"
+import { initCommands, listCommandBindings } from "~lib/shortcuts"
+import { discardUpload, enqueueUpload, initUploadQueue, listUploads, retryAuthRequired, retryUpload } from "~lib/upload-queue"
+
+initUploadQueue()
+initCommands()
+initContextMenus()
+
+serveRequests({
+  CAPTURE: async (_, { sender }) => {
     console.log("📸 Starting viewport capture for tab:", sender.tab?.id, "window:", sender.tab?.windowId)
-    
-    // Use async/await pattern instead of callbacks
-    const handleCapture = async () => {
-      try {
-        const dataUrl = await new Promise<string>((resolve, reject) => {
-          chrome.tabs.captureVisibleTab(sender.tab.windowId, { format: "png" }, (dataUrl) => {
-            if (chrome.runtime.lastError) {
-              reject(new Error(chrome.runtime.lastError.message))
-            } else {
-              resolve(dataUrl)
-            }
-          })
-        })
-        
-        console.log("📸 Capture completed, dataUrl length:", dataUrl?.length)
-        
-        // Get tab info
-        const tab = await new Promise<chrome.tabs.Tab>((resolve, reject) => {
-          chrome.tabs.get(sender.tab.id, (tab) => {
-            if (chrome.runtime.lastError) {
-              reject(new Error(chrome.runtime.lastError.message))
-            } else {
-              resolve(tab)
-            }
-          })
-        })
-        
-        console.log("📊 Tab info:", { width: tab.width, height: tab.height })
-        
-        const response = { ok: true, dataUrl }
-        console.log("✅ Sending response to content script")
-        sendResponse(response)
-        
-      } catch (error) {
-        console.error("❌ Capture error:", error)
-        sendResponse({ ok: false, error: error.message })
-      }
+    const tab = tabOf(sender)
+    const dataUrl = await captureVisibleTab(tab.windowId)
+    console.log("📸 Capture completed, dataUrl length:", dataUrl?.length)
+    // The overlay can't read the zoom level, it records it with the crop's scale
+    return { dataUrl, zoom: await chrome.tabs.getZoom(tab.id).catch(() => 1) }
+  },
+
+  // Progress goes back to the overlay, which also hides itself while a slice is taken
+  CAPTURE_FULL_PAGE: async (_, { sender, signal, progress }) => {
+    const tab = tabOf(sender)
+    console.log("📸 Starting full page capture for tab:", tab.id)
+    const result = await captureFullPage(tab.id, tab.windowId, progress, signal)
+    console.log("📸 Full page capture completed, dataUrl length:", result.dataUrl?.length)
+    console.log("📊 Page dimensions:", result.pageDimensions)
+    return result
+  },
+
+  CAPTURE_REGION: async ({ region }, { sender, signal, progress }) => {
+    const tab = tabOf(sender)
+    console.log("📸 Starting region capture for tab:", tab.id, region)
+    return captureRegion(tab.id, tab.windowId, region, progress, signal)
+  },
+
+  CAPTURE_CLIP: async ({ clip }, { sender }) => ({ dataUrl: await captureClip(tabOf(sender).id, clip) }),
+
+  // Upload queue: the overlay hands clips over here, the queue owns them from then on
+  UPLOAD_ENQUEUE: async ({ payload, clipId }) => ({ upload: await enqueueUpload(payload, clipId ?? null) }),
+  UPLOAD_LIST: async () => ({ uploads: await listUploads() }),
+  UPLOAD_RETRY: async ({ id }) => {
+    await retryUpload(id)
+    return {}
+  },
+  UPLOAD_DISCARD: async ({ id }) => {
+    await discardUpload(id)
+    return {}
+  },
+
+  // Local library: content scripts can't reach the extension's IndexedDB themselves
+  LIBRARY_SAVE: async ({ payload, mode, tags }) => ({ clipId: (await saveClip(payload, { mode, tags })).id }),
+  LIBRARY_TAGS: async () => ({ tags: await listTags() }),
+
+  // DOM snippet assets: the worker can fetch cross-origin, the page's content script can't
+  FETCH_ASSET: ({ url, maxBytes }) => fetchAsset(url, maxBytes),
+
+  // Breakpoint captures: the overlay drives the loop, the worker owns the debugger session
+  // A caller that cancels while the debugger attaches may not send the END request
+  RESPONSIVE_START: async (_, { sender, signal }) => {
+    const tabId = tabOf(sender).id
+    await startEmulation(tabId)
+    if (signal.aborted) {
+      await stopEmulation(tabId)
+      throw new ProtocolError("CANCELLED", "RESPONSIVE_START was cancelled")
     }
-    
-    handleCapture()
-    return true // async
-  }
-  
-  if (msg?.type === "CAPTURE_FULL_PAGE") {
-    console.log("📸 Starting full page capture for tab:", sender.tab?.id)
-    
-    const handleFullPageCapture = async () => {
-      try {
-        // Inject script to capture full page
-        const results = await chrome.scripting.executeScript({
-          target: { tabId: sender.tab.id },
-          func: captureFullPage
-        })
-        
-        if (results && results[0] && results[0].result) {
-          const result = results[0].result as { dataUrl: string; pageDimensions: { width: number; height: number } }
-          const { dataUrl, pageDimensions } = result
-          console.log("📸 Full page capture completed, dataUrl length:", dataUrl?.length)
-          console.log("📊 Page dimensions:", pageDimensions)
-          
-          const response = { ok: true, dataUrl, pageDimensions }
-          sendResponse(response)
-        } else {
-          throw new Error("Failed to capture full page")
-        }
-        
-      } catch (error) {
-        console.error("❌ Full page capture error:", error)
-        sendResponse({ ok: false, error: error.message })
-      }
+    return {}
+  },
+  RESPONSIVE_EMULATE: async ({ width, height }, { sender }) => {
+    await emulateWidth(tabOf(sender).id, width, height)
+    return {}
+  },
+  RESPONSIVE_END: async (_, { sender }) => {
+    await stopEmulation(tabOf(sender).id)
+    return {}
+  },
+
+  // State matrix: pseudo-classes of the picked element are forced through the debugger
+  STATES_START: async (_, { sender, signal }) => {
+    const tabId = tabOf(sender).id
+    await startStateCapture(tabId)
+    if (signal.aborted) {
+      await endStateCapture(tabId)
+      throw new ProtocolError("CANCELLED", "STATES_START was cancelled")
     }
-    
-    handleFullPageCapture()
-    return true // async
+    return {}
+  },
+  STATES_FORCE: async ({ state }, { sender }) => {
+    await forceElementState(tabOf(sender).id, state)
+    return {}
+  },
+  STATES_END: async (_, { sender }) => {
+    await endStateCapture(tabOf(sender).id)
+    return {}
+  },
+
+  // Page globals are only visible from the main world, which content scripts can't reach
+  FINGERPRINT: async (_, { sender }) => ({ technical: await fingerprintTab(tabOf(sender).id) }),
+
+  // Recordings: the worker only holds the stream id, the offscreen document does the recording
+  RECORD_START: async ({ request }, { sender }) => {
+    await startRecording(tabOf(sender).id, request)
+    return {}
+  },
+  RECORD_STOP: async () => ({ recording: await stopRecording() }),
+
+  // Content scripts can't read chrome.commands, the overlay's hint asks here
+  COMMANDS_LIST: async () => ({ bindings: await listCommandBindings() }),
+
+  OPEN_LIBRARY: async () => {
+    await chrome.tabs.create({ url: chrome.runtime.getURL("tabs/library.html") })
+    return {}
+  },
+
+  // Auth: tokens never leave the worker, callers only get the signed-in status back
+  AUTH_STATUS: async ({ profileId }) => ({ status: await getAuthStatus(profileId) }),
+
+  AUTH_SIGN_IN: async ({ profileId }) => {
+    const profile = await requireProfile(profileId)
+    await signIn(profile)
+    await retryAuthRequired(profile.id)
+    return { status: await getAuthStatus(profile.id) }
+  },
+
+  // Credentials are only managed from the options page, never from a content script
+  AUTH_SET_API_KEY: async ({ profileId, apiKey, name, email }, { sender }) => {
+    requireExtensionPage(sender)
+    const profile = await requireProfile(profileId)
+    await setApiKey(profile, apiKey, { name, email })
+    await retryAuthRequired(profile.id)
+    return { status: await getAuthStatus(profile.id) }
+  },
+
+  AUTH_SIGN_OUT: async ({ profileId }, { sender }) => {
+    requireExtensionPage(sender)
+    const profile = await requireProfile(profileId)
+    await signOut(profile.id)
+    return { status: await getAuthStatus(profile.id) }
   }
 })
 
-// Function to be injected into the page for full page capture
-function captureFullPage() {
-  return new Promise((resolve) => {
-    // Get page dimensions
-    const pageWidth = Math.max(
-      document.body.scrollWidth,
-      document.body.offsetWidth,
-      document.documentElement.clientWidth,
-      document.documentElement.scrollWidth,
-      document.documentElement.offsetWidth
-    )
-    
-    const pageHeight = Math.max(
-      document.body.scrollHeight,
-      document.body.offsetHeight,
-      document.documentElement.clientHeight,
-      document.documentElement.scrollHeight,
-      document.documentElement.offsetHeight
-    )
-    
-    // Create canvas for full page
-    const canvas = document.createElement('canvas')
-    canvas.width = pageWidth
-    canvas.height = pageHeight
-    const ctx = canvas.getContext('2d')
-    
-    // Fill with white background
-    ctx.fillStyle = '#ffffff'
-    ctx.fillRect(0, 0, pageWidth, pageHeight)
-    
-    // Improved element capture with proper text handling
-    const captureElement = (element: Node, offsetX: number = 0, offsetY: number = 0) => {
-      if (element.nodeType === Node.TEXT_NODE) {
-        // Handle text nodes
-        const textContent = element.textContent?.trim()
-        if (textContent) {
-          const parent = element.parentElement
-          if (parent) {
-            const rect = parent.getBoundingClientRect()
-            const style = window.getComputedStyle(parent)
-            
-            // Set font properties
-            ctx.fillStyle = style.color || '#000000'
-            ctx.font = `${style.fontWeight || 'normal'} ${style.fontSize || '16px'} ${style.fontFamily || 'Arial'}`
-            ctx.textAlign = 'left'
-            ctx.textBaseline = 'top'
-            
-            // Draw text at correct position
-            const textX = offsetX + rect.left
-            const textY = offsetY + rect.top + parseInt(style.fontSize) || 16
-            
-            // Handle text wrapping for long text
-            const maxWidth = rect.width
-            const words = textContent.split(' ')
-            let line = ''
-            let y = textY
-            
-            for (let n = 0; n < words.length; n++) {
-              const testLine = line + words[n] + ' '
-              const metrics = ctx.measureText(testLine)
-              const testWidth = metrics.width
-              
-              if (testWidth > maxWidth && n > 0) {
-                ctx.fillText(line, textX, y)
-                line = words[n] + ' '
-                y += parseInt(style.lineHeight) || parseInt(style.fontSize) || 16
-              } else {
-                line = testLine
-              }
-            }
-            ctx.fillText(line, textX, y)
-          }
-        }
-        return
-      }
-      
-      if (element.nodeType === Node.ELEMENT_NODE) {
-        const el = element as HTMLElement
-        const rect = el.getBoundingClientRect()
-        const style = window.getComputedStyle(el)
-        
-        // Skip hidden elements
-        if (style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) === 0) {
-          return
-        }
-        
-        // Draw background
-        if (style.backgroundColor && style.backgroundColor !== 'rgba(0, 0, 0, 0)' && style.backgroundColor !== 'transparent') {
-          ctx.fillStyle = style.backgroundColor
-          ctx.fillRect(offsetX + rect.left, offsetY + rect.top, rect.width, rect.height)
-        }
-        
-        // Draw border
-        if (style.borderWidth && style.borderWidth !== '0px') {
-          ctx.strokeStyle = style.borderColor || '#000000'
-          ctx.lineWidth = parseInt(style.borderWidth) || 1
-          ctx.strokeRect(offsetX + rect.left, offsetY + rect.top, rect.width, rect.height)
-        }
-        
-        // Process all child nodes (including text nodes)
-        for (let i = 0; i < el.childNodes.length; i++) {
-          captureElement(el.childNodes[i], offsetX, offsetY)
-        }
-      }
-    }
-    
-    // Capture the entire document starting from body
-    captureElement(document.body)
-    
-    // Convert to data URL
-    const dataUrl = canvas.toDataURL('image/png')
-    
-    resolve({
-      dataUrl,
-      pageDimensions: { width: pageWidth, height: pageHeight }
-    })
-  })
+// Tab-bound requests only make sense from the overlay
+function tabOf(sender: chrome.runtime.MessageSender) {
+  if (!sender.tab?.id) throw new ProtocolError("NOT_ALLOWED", "Only available from a tab")
+  return sender.tab
+}
+
+async function requireProfile(profileId: string) {
+  const profile = await getProfile(profileId)
+  if (!profile) throw new Error("Unknown profile")
+  return profile
+}
+
+function requireExtensionPage(sender: chrome.runtime.MessageSender) {
+  const isExtensionPage = sender.id === chrome.runtime.id && !!sender.url?.startsWith(chrome.runtime.getURL(""))
+  if (!isExtensionPage) throw new ProtocolError("NOT_ALLOWED", "Not allowed")
 }
@@ -0,0 +1,264 @@
+// src/components/annotation-editor.tsx
+// Full-screen markup editor opened from the capture preview: rectangles, arrows,
+// numbered callouts, pen, text labels, pixelate and crop, with undo/redo.
+// Works on image pixel coordinates; the canvas is only scaled with CSS to fit.
+
+import React, { useEffect, useRef, useState } from "react"
+import {
+  cropWithAnnotations,
+  drawAnnotations,
+  loadImage,
+  normalizeRect,
+  type Annotation,
+  type AnnotationKind,
+  type CropRect,
+  type Point
+} from "~lib/annotations"
+
+type Tool = AnnotationKind | "crop"
+
+type EditorState = { imageDataUrl: string; annotations: Annotation[] }
+
+const TOOLS: Array<{ tool: Tool; label: string }> = [
+  { tool: "rect", label: "Rectangle" },
+  { tool: "arrow", label: "Arrow" },
+  { tool: "callout", label: "Callout" },
+  { tool: "pen", label: "Pen" },
+  { tool: "text", label: "Text" },
+  { tool: "blur", label: "Pixelate" },
+  { tool: "crop", label: "Crop" }
+]
+
+const COLORS = ["#ef4444", "#f59e0b", "#22c55e", "#2563eb", "#111827", "#ffffff"]
+
+const newId = () => Math.random().toString(36).slice(2, 10)
+
+export const AnnotationEditor = ({ imageDataUrl, annotations, onDone, onCancel }: {
+  imageDataUrl: string
+  annotations: Annotation[]
+  onDone: (imageDataUrl: string, annotations: Annotation[]) => void
+  onCancel: () => void
+}) => {
+  const [past, setPast] = useState<EditorState[]>([])
+  const [present, setPresent] = useState<EditorState>({ imageDataUrl, annotations })
+  const [future, setFuture] = useState<EditorState[]>([])
+  const [tool, setTool] = useState<Tool>("rect")
+  const [color, setColor] = useState(COLORS[0])
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [draft, setDraft] = useState<Annotation | null>(null)
+  const [cropDraft, setCropDraft] = useState<CropRect | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const rootRef = useRef<HTMLDivElement>(null)
+  const startRef = useRef<Point | null>(null)
+
+  useEffect(() => {
+    loadImage(present.imageDataUrl).then(setImage)
+  }, [present.imageDataUrl])
+
+  useEffect(() => {
+    rootRef.current?.focus()
+  }, [])
+
+  // Redraw everything on each change, images are small enough for that
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !image) return
+    canvas.width = image.naturalWidth
+    canvas.height = image.naturalHeight
+    const ctx = canvas.getContext("2d")!
+    ctx.drawImage(image, 0, 0)
+    drawAnnotations(ctx, image, draft ? [...present.annotations, draft] : present.annotations)
+
+    if (cropDraft) {
+      ctx.save()
+      ctx.fillStyle = "rgba(0, 0, 0, 0.5)"
+      ctx.beginPath()
+      ctx.rect(0, 0, canvas.width, canvas.height)
+      ctx.rect(cropDraft.x, cropDraft.y, cropDraft.w, cropDraft.h)
+      ctx.fill("evenodd")
+      ctx.strokeStyle = "#ffffff"
+      ctx.setLineDash([8, 6])
+      ctx.lineWidth = strokeWidth(image)
+      ctx.strokeRect(cropDraft.x, cropDraft.y, cropDraft.w, cropDraft.h)
+      ctx.restore()
+    }
+  }, [image, present, draft, cropDraft])
+
+  const commit = (next: EditorState) => {
+    setPast((prev) => [...prev, present])
+    setPresent(next)
+    setFuture([])
+  }
+
+  const undo = () => {
+    if (!past.length) return
+    setFuture((prev) => [present, ...prev])
+    setPresent(past[past.length - 1])
+    setPast((prev) => prev.slice(0, -1))
+    setCropDraft(null)
+  }
+
+  const redo = () => {
+    if (!future.length) return
+    setPast((prev) => [...prev, present])
+    setPresent(future[0])
+    setFuture((prev) => prev.slice(1))
+    setCropDraft(null)
+  }
+
+  const addAnnotation = (annotation: Annotation) =>
+    commit({ ...present, annotations: [...present.annotations, annotation] })
+
+  const applyCrop = async () => {
+    if (!cropDraft || cropDraft.w < 2 || cropDraft.h < 2) return
+    commit(await cropWithAnnotations(present.imageDataUrl, present.annotations, cropDraft))
+    setCropDraft(null)
+  }
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = canvasRef.current!
+    const r = canvas.getBoundingClientRect()
+    return {
+      x: Math.round((e.clientX - r.left) * canvas.width / r.width),
+      y: Math.round((e.clientY - r.top) * canvas.height / r.height)
+    }
+  }
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!image || e.button !== 0) return
+    const p = toImagePoint(e)
+    const width = strokeWidth(image)
+
+    if (tool === "callout") {
+      const number = present.annotations.filter((a) => a.kind === "callout").length + 1
+      addAnnotation({ id: newId(), kind: "callout", x: p.x, y: p.y, number, color, size: width * 10 })
+      return
+    }
+    if (tool === "text") {
+      const text = prompt("Label text")
+      if (text) addAnnotation({ id: newId(), kind: "text", x: p.x, y: p.y, text, color, size: width * 8 })
+      return
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    startRef.current = p
+    if (tool === "crop") setCropDraft({ x: p.x, y: p.y, w: 0, h: 0 })
+    if (tool === "pen") setDraft({ id: newId(), kind: "pen", points: [p], color, width })
+  }
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = startRef.current
+    if (!start || !image) return
+    const p = toImagePoint(e)
+    const width = strokeWidth(image)
+
+    switch (tool) {
+      case "crop":
+        setCropDraft(normalizeRect(start, p))
+        break
+      case "rect":
+        setDraft({ id: "draft", kind: "rect", ...normalizeRect(start, p), color, width })
+        break
+      case "blur":
+        setDraft({ id: "draft", kind: "blur", ...normalizeRect(start, p), blockSize: width * 4 })
+        break
+      case "arrow":
+        setDraft({ id: "draft", kind: "arrow", from: start, to: p, color, width })
+        break
+      case "pen":
+        setDraft((prev) => prev?.kind === "pen" ? { ...prev, points: [...prev.points, p] } : prev)
+        break
+    }
+  }
+
+  const onPointerUp = () => {
+    startRef.current = null
+    if (!draft) return
+    const tooSmall = (draft.kind === "rect" || draft.kind === "blur") && (draft.w < 3 || draft.h < 3)
+    if (!tooSmall) addAnnotation({ ...draft, id: newId() })
+    setDraft(null)
+  }
+
+  // Keys are handled here and stopped, so the overlay's global shortcuts don't fire
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const mod = e.ctrlKey || e.metaKey
+    if (mod && e.key.toLowerCase() === "z") {
+      e.shiftKey ? redo() : undo()
+    } else if (mod && e.key.toLowerCase() === "y") {
+      redo()
+    } else if (e.key === "Enter" && cropDraft) {
+      applyCrop()
+    } else if (e.key === "Escape") {
+      cropDraft ? setCropDraft(null) : onCancel()
+    } else {
+      return
+    }
+    e.preventDefault()
+    e.stopPropagation()
+  }
+
+  const buttonClass = "px-2.5 py-1.5 rounded-lg text-xs font-sans cursor-pointer border"
+
+  return (
+    <div
+      ref={rootRef}
+      tabIndex={-1}
+      onKeyDown={onKeyDown}
+      className="fixed inset-0 z-overlay flex flex-col gap-3 p-4 bg-black/80 text-gray-200 outline-none"
+    >
+      <div className="flex flex-wrap items-center gap-2 p-2 bg-gray-900 rounded-xl">
+        {TOOLS.map(({ tool: t, label }) => (
+          <button
+            key={t}
+            className={`${buttonClass} ${tool === t ? "bg-blue-600 border-blue-600 text-white" : "bg-gray-800 border-gray-600"}`}
+            onClick={() => {
+              setTool(t)
+              setCropDraft(null)
+            }}
+          >
+            {label}
+          </button>
+        ))}
+        <div className="flex gap-1 mx-2">
+          {COLORS.map((c) => (
+            <button
+              key={c}
+              title={c}
+              className={`w-5 h-5 rounded-full cursor-pointer border-2 ${color === c ? "border-blue-400" : "border-gray-600"}`}
+              style={{ background: c }}
+              onClick={() => setColor(c)}
+            />
+          ))}
+        </div>
+        <button className={`${buttonClass} bg-gray-800 border-gray-600 disabled:opacity-40`} disabled={!past.length} onClick={undo}>Undo</button>
+        <button className={`${buttonClass} bg-gray-800 border-gray-600 disabled:opacity-40`} disabled={!future.length} onClick={redo}>Redo</button>
+        {cropDraft && (
+          <button className={`${buttonClass} bg-blue-600 border-blue-600 text-white`} onClick={applyCrop}>Apply crop</button>
+        )}
+        <div className="flex gap-2 ml-auto">
+          <button className={`${buttonClass} bg-transparent border-gray-600`} onClick={onCancel}>Cancel</button>
+          <button
+            className={`${buttonClass} bg-blue-600 border-blue-600 text-white`}
+            onClick={() => onDone(present.imageDataUrl, present.annotations)}
+          >
+            Done
+          </button>
+        </div>
+      </div>
+      <div className="flex items-center justify-center flex-1 min-h-0">
+        <canvas
+          ref={canvasRef}
+          className="max-w-full max-h-full bg-black rounded-lg cursor-crosshair touch-none"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+        />
+      </div>
+    </div>
+  )
+}
+
+// Line widths scale with the capture so markup looks the same on 1x and 2x screenshots
+function strokeWidth(image: HTMLImageElement) {
+  return Math.max(2, Math.round(Math.min(image.naturalWidth, image.naturalHeight) / 150))
+}
@@ -2,20 +2,97 @@
 // Plasmo content script: draws a simple lasso (rect) overlay for IMAGE mode,
 // adds DOM mode (hover to highlight element, click to select subtree),
 // captures screenshot via background, crops client-side, shows preview,
-// and POST:ar till backend (konfig via PLASMO_PUBLIC_BACKEND_URL).
+// and hands uploads to the background queue (see lib/upload-queue.ts).
 
 import React, { useEffect, useRef, useState } from "react"
 import type { PlasmoCSConfig } from "plasmo"
 import "./style.css"
 import cssText from "data-text:~style.css"
+import { AnnotationEditor } from "~components/annotation-editor"
+import { exportRecording, type RecordingFormat, type Trim } from "~lib/animation"
+import { burnRedactions, flattenAnnotations, loadImage, type Annotation } from "~lib/annotations"
+import { parseTags, suggestTags } from "~lib/auto-tags"
+import {
+  getCaptureScaleSettings,
+  outputPixelRatio,
+  screenshotPixelRatio,
+  viewportGeometry,
+  type ImageScale,
+  type OutputDensity,
+  type ViewportGeometry
+} from "~lib/capture-scale"
+import type { ContextMenuRequest } from "~lib/context-menus"
+import { extractDesignTokens, type DesignTokens } from "~lib/design-tokens"
+import { embedAssets, getAssetSettings, type AssetReport } from "~lib/dom-assets"
+import { applyElementState, relevantStates, STATE_TARGET_ATTRIBUTE, type StateCapture } from "~lib/element-states"
+import {
+  buildBundle,
+  copyHtml,
+  copyImage,
+  downloadBlob,
+  exportFilename,
+  referenceCardHtml,
+  referenceCardMarkdown
+} from "~lib/export"
+import {
+  ancestorChain,
+  composedChildren,
+  composedParent,
+  composedSibling,
+  deepElementFromPoint,
+  describeElement,
+  elementCoveringRegion,
+  querySelectorDeep,
+  rectInTopWindow,
+  similarSiblings,
+  uniqueSelector
+} from "~lib/dom-picker"
+import { serializeWithStyles } from "~lib/dom-snapshot"
+import type { TechnicalContext } from "~lib/fingerprint"
+import {
+  applyRedactions,
+  DEFAULT_REDACTION_SETTINGS,
+  detectRedactions,
+  getRedactionSettings,
+  onRedactionSettingsChanged,
+  redactClone,
+  summarizeRedactions,
+  targetRects,
+  type RedactionItem,
+  type RedactionTarget
+} from "~lib/redaction"
+import {
+  adjustRect,
+  autoScrollDelta,
+  handleAt,
+  MIN_LASSO_SIZE,
+  RESIZE_HANDLES,
+  spanRect,
+  toClientRect,
+  toDocRect,
+  type DocRect,
+  type LassoHandle
+} from "~lib/lasso"
+import { MAX_RECORDING_MS, type Recording } from "~lib/recording"
+import { isCancelled, request } from "~lib/protocol"
+import { getResponsiveSettings, type ResponsiveFrame } from "~lib/responsive"
+import {
+  CAPTURE_COMMANDS,
+  COMMAND_LABELS,
+  DEFAULT_SHORTCUT_SETTINGS,
+  getShortcutSettings,
+  matchesBinding,
+  onShortcutSettingsChanged,
+  type CaptureCommand,
+  type ShortcutSettings
+} from "~lib/shortcuts"
+import { fileExtension } from "~lib/upload-format"
+import type { UploadSummary } from "~lib/upload-queue"
 
 export const config: PlasmoCSConfig = {
   matches: ["<all_urls>"],
 }
 
-const BACKEND_URL = "https://do9fz3dkd8sl6.cloudfront.net/api/clips"
-const FRONTEND_URL = "https://grebref-frontend-one.vercel.app/"
-
 
 /**
  * Generates a style element with adjusted CSS to work correctly within a Shadow DOM.
@@ -47,26 +124,134 @@ export const getStyle = (): HTMLStyleElement => {
   return styleElement
 }
 
-type Mode = "image" | "dom" | "fullpage"
+type Mode = "image" | "dom" | "fullpage" | "record" | "text"
+
+type Rect = { x: number, y: number, w: number, h: number }
+
+// A lasso rectangle plus the scroll position it was drawn at
+type SelectedArea = { rect: Rect, scroll: { x: number, y: number } }
+
+// What goes into one payload, from the single preview or from a batch item
+type CaptureContent = {
+  description: string
+  tags: string // comma-separated, as typed
+  imageDataUrl: string | null
+  imageScale: ImageScale | null // image pixels per CSS pixel and what they came from, for screenshots
+  domHtml: string | null
+  text: string | null // text references from a selection
+  sourceUrl: string | null // the original asset, for images saved from the context menu
+  selector: string | null
+  rect: Rect | null
+  annotations: Annotation[]
+  assetReport: AssetReport | null
+  frames: ResponsiveFrame[]
+  states: StateCapture[]
+  designTokens: DesignTokens | null
+  recording: RecordingExport | null
+}
+
+// A recording as it is saved, after trimming and conversion
+type RecordingExport = { dataUrl: string, format: RecordingFormat, trim: Trim, durationMs: number }
+
+type ExportAction = "copy-image" | "copy-html" | "copy-text" | "download-file" | "download-zip" | "card-markdown" | "card-html"
+
+// Images saved from the context menu larger than this are captured from the page instead
+const MAX_IMAGE_REFERENCE_BYTES = 20 * 1024 * 1024
+
+// How long the page gets to settle after a viewport resize or a forced state, for resize handlers and transitions
+const SETTLE_MS = 300
+
+// One capture in a multi-select batch, each with its own description and tags
+type BatchItem = CaptureContent & {
+  id: string
+  mode: Mode
+  suggestedTags: string[]
+  redactionCount: number
+}
 
 const Overlay = () => {
   const [mode, setMode] = useState<Mode | null>(null)
-  const [rect, setRect] = useState<{ x: number, y: number, w: number, h: number } | null>(null)
-  const [drag, setDrag] = useState<{ startX: number, startY: number } | null>(null)
+  const [captureMode, setCaptureMode] = useState<Mode | null>(null) // mode the current preview came from
+  const [rect, setRect] = useState<Rect | null>(null)
+  const [drag, setDrag] = useState<{ startX: number, startY: number, additive: boolean } | null>(null) // start in document coordinates
+  const [pendingArea, setPendingArea] = useState<SelectedArea | null>(null) // drawn lasso, adjustable until confirmed
+  const [adjust, setAdjust] = useState<{ handle: LassoHandle, startX: number, startY: number, start: DocRect } | null>(null)
+  const pointerRef = useRef({ x: 0, y: 0, moved: false }) // client position during a drag, for auto-scroll
+  const lassoBarRef = useRef<HTMLDivElement>(null)
   const [preview, setPreview] = useState<string | null>(null) // image dataURL
+  const [previewScale, setPreviewScale] = useState<ImageScale | null>(null)
   const [domPreview, setDomPreview] = useState<string | null>(null) // serialized HTML string
+  const [textPreview, setTextPreview] = useState<string | null>(null) // selected text
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null)
   const [desc, setDesc] = useState("")
   const [tags, setTags] = useState("")
+  const [suggestedTags, setSuggestedTags] = useState<string[]>([]) // see lib/auto-tags.ts
+  const [knownTags, setKnownTags] = useState<string[]>([]) // used before, for autocomplete
+  const [annotations, setAnnotations] = useState<Annotation[]>([]) // vector layer on top of `preview`
+  const [annotatedPreview, setAnnotatedPreview] = useState<string | null>(null) // preview with annotations burnt in
+  const [isAnnotating, setIsAnnotating] = useState(false)
 
   // DOM mode highlighting
   const [hoverEl, setHoverEl] = useState<HTMLElement | null>(null)
   const [pickedEl, setPickedEl] = useState<HTMLElement | null>(null)
-  const [uploadedUuid, setUploadedUuid] = useState<string | null>(null)
+  const [pickedSelector, setPickedSelector] = useState<string | null>(null) // stable CSS selector of pickedEl
+  const [hoverLocked, setHoverLocked] = useState(false) // mouse no longer moves the outline
+  const pickerPanelRef = useRef<HTMLDivElement>(null)
+
+  // Multi-select: Shift-click/Shift-drag collects a selection, finishing it fills the batch gallery
+  const [selectedEls, setSelectedEls] = useState<HTMLElement[]>([])
+  const [selectedAreas, setSelectedAreas] = useState<SelectedArea[]>([])
+  const [batch, setBatch] = useState<BatchItem[]>([])
+  const [isBatchBusy, setIsBatchBusy] = useState(false)
+  const [, setScrollTick] = useState(0) // re-renders selected areas while the page scrolls
+  const [uploadedUrl, setUploadedUrl] = useState<string | null>(null) // hosted library link of the last upload
   const [showUploadSuccess, setShowUploadSuccess] = useState(false)
   const [timeLeft, setTimeLeft] = useState(15)
   const [isCapturing, setIsCapturing] = useState(false)
+  const [fullPageProgress, setFullPageProgress] = useState<{ done: number, total: number } | null>(null)
   const uploadSuccessTimeoutRef = useRef<number | null>(null)
   const countdownIntervalRef = useRef<number | null>(null)
+  const [uploads, setUploads] = useState<UploadSummary[]>([])
+  const [showSavedToLibrary, setShowSavedToLibrary] = useState(false)
+  const ownUploadIdsRef = useRef(new Set<string>()) // uploads queued from this page
+  const [pendingUploadId, setPendingUploadId] = useState<string | null>(null) // uploading from the open preview
+
+  // PII redaction: what was masked in the current preview, and what the user chose to keep
+  const [redactions, setRedactions] = useState<RedactionItem[]>([])
+  const [redactionOverrides, setRedactionOverrides] = useState(new Set<string>())
+  const redactionOverridesRef = useRef(new Set<string>()) // read inside capture callbacks
+  const redactionSettingsRef = useRef(DEFAULT_REDACTION_SETTINGS)
+  const captureScrollRef = useRef({ x: 0, y: 0 }) // where an image capture was taken, for re-captures
+
+  // Asset embedding for DOM snippets runs after the snippet is shown
+  const [assetReport, setAssetReport] = useState<AssetReport | null>(null)
+  const [isEmbeddingAssets, setIsEmbeddingAssets] = useState(false)
+  const snapshotIdRef = useRef(0) // bumped per snapshot, so a stale embed never lands
+
+  // The picked element captured again at each configured viewport width
+  const [frames, setFrames] = useState<ResponsiveFrame[]>([])
+  // ...and in each interactive state (hover, focus, …)
+  const [states, setStates] = useState<StateCapture[]>([])
+  // Colours, type and spacing used in the captured subtree or region (see lib/design-tokens.ts)
+  const [designTokens, setDesignTokens] = useState<DesignTokens | null>(null)
+
+  // Record mode: the region being filmed, then the finished clip with its trim range and export format
+  const [recordingArea, setRecordingArea] = useState<{ rect: Rect, startedAt: number } | null>(null)
+  const [recordingElapsed, setRecordingElapsed] = useState(0)
+  const [recording, setRecording] = useState<Recording | null>(null)
+  const [trim, setTrim] = useState<Trim>({ startMs: 0, endMs: 0 })
+  const [recordFormat, setRecordFormat] = useState<RecordingFormat>("webm")
+  const [isExporting, setIsExporting] = useState(false)
+  const isRecordingRef = useRef(false) // read by the Esc handler, which is bound once
+
+  // Shortcut bindings, shown in the hint: chrome.commands plus the opt-in in-page fallback
+  const [commandBindings, setCommandBindings] = useState<Record<CaptureCommand, string> | null>(null)
+  const [shortcutSettings, setShortcutSettings] = useState(DEFAULT_SHORTCUT_SETTINGS)
+  const shortcutSettingsRef = useRef(DEFAULT_SHORTCUT_SETTINGS) // read by the keydown handler, which is bound once
+  const contextTargetRef = useRef<Element | null>(null)
+  const abortRef = useRef(new AbortController()) // in-flight capture requests, see cancelRequests
+
+  const technicalRef = useRef<{ url: string, technical: TechnicalContext } | null>(null)
 
   // Auto-hide upload success popup after 15 seconds
   useEffect(() => {
@@ -87,7 +272,7 @@ const Overlay = () => {
         setTimeLeft(prev => {
           if (prev <= 1) {
             setShowUploadSuccess(false)
-            setUploadedUuid(null)
+            setUploadedUrl(null)
             return 15
           }
           return prev - 1
@@ -97,7 +282,7 @@ const Overlay = () => {
       // Set timeout as backup
       uploadSuccessTimeoutRef.current = window.setTimeout(() => {
         setShowUploadSuccess(false)
-        setUploadedUuid(null)
+        setUploadedUrl(null)
         setTimeLeft(15)
       }, 15000) // 15 seconds
     }
@@ -113,53 +298,161 @@ const Overlay = () => {
     }
   }, [showUploadSuccess])
 
+  // Escape always backs out. Capture keys are chrome.commands forwarded by the background;
+  // the in-page fallback only claims keys on sites the user opted in to (see lib/shortcuts.ts)
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
       if (e.key === "Escape") {
         resetAll()
         return
       }
-      // Ctrl+S => IMAGE mode
-      if (e.ctrlKey && e.key.toLowerCase() === "s") {
-        console.log("Ctrl+S")
-        e.preventDefault()
-        activateImageMode()
-      }
-      // Ctrl+D => DOM mode
-      if (e.ctrlKey && e.key.toLowerCase() === "d") {
-        console.log("Ctrl+D")
-        e.preventDefault()
-        activateDomMode()
-      }
-      // Ctrl+F => Full page mode
-      if (e.ctrlKey && e.key.toLowerCase() === "f") {
-        console.log("Ctrl+F")
-        e.preventDefault()
-        activateFullPageMode()
-      }
+      const settings = shortcutSettingsRef.current
+      if (!settings.inPageSites.includes(location.hostname)) return
+      const command = CAPTURE_COMMANDS.find((c) => matchesBinding(e, settings.inPageBindings[c]))
+      if (!command) return
+      e.preventDefault()
+      runCommand(command)
     }
     window.addEventListener("keydown", onKey)
     return () => window.removeEventListener("keydown", onKey)
   }, [])
 
-  // IMAGE MODE mouse handlers
   useEffect(() => {
-    if (mode !== "image") return
+    const apply = (settings: ShortcutSettings) => {
+      shortcutSettingsRef.current = settings
+      setShortcutSettings(settings)
+    }
+    getShortcutSettings().then(apply)
+    return onShortcutSettingsChanged(apply)
+  }, [])
+
+  // Rebinding happens on chrome://extensions/shortcuts, so look again whenever the page gets focus
+  useEffect(() => {
+    const loadBindings = () => request("COMMANDS_LIST", {})
+      .then((res) => setCommandBindings(res.bindings))
+      .catch((error) => console.warn("⚠️ Could not load shortcuts:", error.message))
+    loadBindings()
+    window.addEventListener("focus", loadBindings)
+    return () => window.removeEventListener("focus", loadBindings)
+  }, [])
+
+  // Commands from the background and the popup's Record button. Either counts as invoking
+  // the extension, which is what lets tabCapture film this tab
+  useEffect(() => {
+    const onMessage = (msg: any) => {
+      if (msg?.type === "RUN_COMMAND") runCommand(msg.command)
+      if (msg?.type === "CONTEXT_MENU") runContextMenu(msg)
+    }
+    chrome.runtime.onMessage.addListener(onMessage)
+    return () => chrome.runtime.onMessage.removeListener(onMessage)
+  }, [])
+
+  // Where the last right-click landed, for the context menu. Clicks inside iframes don't reach us
+  useEffect(() => {
+    const onContextMenu = (e: MouseEvent) => {
+      contextTargetRef.current = deepElementFromPoint(e.clientX, e.clientY, isOverlayHost)
+    }
+    window.addEventListener("contextmenu", onContextMenu, true)
+    return () => window.removeEventListener("contextmenu", onContextMenu, true)
+  }, [])
+
+  useEffect(() => {
+    getRedactionSettings().then((settings) => { redactionSettingsRef.current = settings })
+    return onRedactionSettingsChanged((settings) => { redactionSettingsRef.current = settings })
+  }, [])
+
+  // Upload queue state lives in the background, we mirror it for the tray
+  useEffect(() => {
+    request("UPLOAD_LIST", {})
+      .then((res) => setUploads(res.uploads))
+      .catch((error) => console.warn("⚠️ Could not load the upload queue:", error.message))
+
+    const onMessage = (msg: any) => {
+      if (msg?.type === "UPLOAD_REMOVED") {
+        setUploads(prev => prev.filter(u => u.id !== msg.id))
+        return
+      }
+      if (msg?.type !== "UPLOAD_STATUS") return
+      const upload: UploadSummary = msg.upload
+
+      if (upload.status === "done") {
+        setUploads(prev => prev.filter(u => u.id !== upload.id))
+        if (ownUploadIdsRef.current.delete(upload.id) && upload.viewUrl) {
+          setUploadedUrl(upload.viewUrl)
+          setShowUploadSuccess(true)
+        }
+        return
+      }
+      setUploads(prev => prev.some(u => u.id === upload.id)
+        ? prev.map(u => u.id === upload.id ? upload : u)
+        : [...prev, upload])
+    }
+    chrome.runtime.onMessage.addListener(onMessage)
+    return () => chrome.runtime.onMessage.removeListener(onMessage)
+  }, [])
+
+  // The preview stays open with its progress until the first attempt is over, a retry moves to the tray
+  useEffect(() => {
+    if (!pendingUploadId) return
+    const upload = uploads.find(u => u.id === pendingUploadId)
+    if (upload && upload.status === "uploading") return
+    if (upload && upload.status === "queued" && !upload.attempts) return
+    setPendingUploadId(null)
+    setPreview(null)
+    setDomPreview(null)
+    setTextPreview(null)
+    setRecording(null)
+    setDesc("")
+    setTags("")
+    setAnnotations([])
+  }, [uploads, pendingUploadId])
+
+  // Keep a flattened copy for the thumbnail and for exports
+  useEffect(() => {
+    if (!preview) {
+      setAnnotatedPreview(null)
+      return
+    }
+    let cancelled = false
+    flattenAnnotations(preview, annotations).then((flattened) => {
+      if (!cancelled) setAnnotatedPreview(flattened)
+    })
+    return () => { cancelled = true }
+  }, [preview, annotations])
+
+  // IMAGE and RECORD MODE mouse handlers. The lasso is tracked in document coordinates, `rect`
+  // is its client rectangle at the current scroll position
+  useEffect(() => {
+    if (mode !== "image" && mode !== "record") return
+    const inLassoBar = (e: Event) => !!lassoBarRef.current && e.composedPath().includes(lassoBarRef.current)
     const onDown = (e: MouseEvent) => {
-      if (e.button !== 0) return
+      if (e.button !== 0 || inLassoBar(e)) return
       e.preventDefault()
-      setDrag({ startX: e.clientX, startY: e.clientY })
+      pointerRef.current = { x: e.clientX, y: e.clientY, moved: false }
+      const docX = e.clientX + window.scrollX
+      const docY = e.clientY + window.scrollY
+      const handle = mode === "image" && pendingArea ? handleAt(e) : null
+      if (handle) {
+        setAdjust({ handle, startX: docX, startY: docY, start: toDocRect(pendingArea.rect, pendingArea.scroll) })
+        return
+      }
+      const additive = mode === "image" && e.shiftKey
+      // Shift-drawing next to a drawn lasso keeps it as part of the selection
+      if (pendingArea && additive) setSelectedAreas(prev => [...prev, pendingArea])
+      setPendingArea(null)
+      setDrag({ startX: docX, startY: docY, additive })
       setRect({ x: e.clientX, y: e.clientY, w: 0, h: 0 })
     }
     const onMove = (e: MouseEvent) => {
-      if (!drag) return
-      const x = Math.min(drag.startX, e.clientX)
-      const y = Math.min(drag.startY, e.clientY)
-      const w = Math.abs(e.clientX - drag.startX)
-      const h = Math.abs(e.clientY - drag.startY)
-      setRect({ x, y, w, h })
+      if (!drag && !adjust) return
+      pointerRef.current = { x: e.clientX, y: e.clientY, moved: true }
+      trackPointer()
     }
     const onUp = async (_e: MouseEvent) => {
+      if (adjust) {
+        setAdjust(null)
+        return
+      }
       console.log("🖱️ Mouse up event triggered")
       console.log("📏 Drag state:", drag)
       console.log("📐 Rect state:", rect)
@@ -169,68 +462,20 @@ const Overlay = () => {
         return
       }
 
-      console.log("✅ Starting capture process...")
       setDrag(null)
-
-      // Hide overlays during capture
-      setIsCapturing(true)
-
-      // Small delay to ensure overlays are hidden before capture
-      await new Promise(resolve => setTimeout(resolve, 100))
-
-      try {
-        // Add timeout to prevent hanging
-        const res = await chrome.runtime.sendMessage({ type: "CAPTURE" });
-
-        console.log("📸 Capture response:", res)
-
-        if (!res?.ok) {
-          console.error("❌ Capture failed:", res?.error)
-          alert("Capture failed: " + (res?.error ?? "unknown"))
-          return
-        }
-
-        const dataUrl: string = res.dataUrl
-        console.log("🖼️ Data URL length:", dataUrl.length)
-
-        const img = new Image()
-        img.onload = () => {
-          console.log("🖼️ Image loaded, dimensions:", img.width, "x", img.height)
-          console.log("🖼️ Window dimensions:", window.innerWidth, "x", window.innerHeight)
-
-          const scale = img.width / window.innerWidth
-          console.log("📏 Scale factor:", scale)
-
-          const sx = Math.round(rect.x * scale)
-          const sy = Math.round(rect.y * scale)
-          const sw = Math.round(rect.w * scale)
-          const sh = Math.round(rect.h * scale)
-
-          console.log("✂️ Crop coordinates:", { sx, sy, sw, sh })
-
-          const canvas = document.createElement("canvas")
-          canvas.width = Math.max(1, sw)
-          canvas.height = Math.max(1, sh)
-          const ctx = canvas.getContext("2d")!
-          ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh)
-          const cropped = canvas.toDataURL("image/png")
-
-          console.log("✅ Cropped image created, length:", cropped.length)
-          setPreview(cropped)
-          setMode(null)
-          setIsCapturing(false) // Restore overlays
-          console.log("🎉 Preview set and mode cleared")
-        }
-        img.onerror = (error) => {
-          console.error("❌ Image load error:", error)
-          setIsCapturing(false) // Restore overlays on error
-        }
-        img.src = dataUrl
-      } catch (error) {
-        console.error("❌ Error in capture process:", error)
-        alert("Error: " + error)
-        setIsCapturing(false) // Restore overlays on error
+      if (mode === "record") {
+        await beginRecording(rect)
+        return
       }
+      const area = { rect, scroll: { x: window.scrollX, y: window.scrollY } }
+      setRect(null)
+      if (rect.w < MIN_LASSO_SIZE || rect.h < MIN_LASSO_SIZE) return
+      if (drag.additive) {
+        setSelectedAreas(prev => [...prev, area])
+        return
+      }
+      // Captured once confirmed, until then the handles can move and resize it
+      setPendingArea(area)
     }
     document.addEventListener("mousedown", onDown, true)
     document.addEventListener("mousemove", onMove, true)
@@ -240,24 +485,67 @@ const Overlay = () => {
       document.removeEventListener("mousemove", onMove, true)
       document.removeEventListener("mouseup", onUp, true)
     }
-  }, [mode, drag, rect])
+  }, [mode, drag, adjust, rect, pendingArea, selectedAreas])
+
+  // IMAGE MODE auto-scroll: a drag near a viewport edge scrolls the page, and the lasso
+  // follows the scroll since its far corner is the pointer's document position
+  useEffect(() => {
+    if (mode !== "image" || (!drag && !adjust)) return
+    let frame = requestAnimationFrame(function step() {
+      const pointer = pointerRef.current
+      const { dx, dy } = pointer.moved ? autoScrollDelta(pointer.x, pointer.y) : { dx: 0, dy: 0 }
+      if (dx || dy) window.scrollBy({ left: dx, top: dy, behavior: "instant" })
+      frame = requestAnimationFrame(step)
+    })
+    const onScroll = () => trackPointer()
+    window.addEventListener("scroll", onScroll, true)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener("scroll", onScroll, true)
+    }
+  }, [mode, drag, adjust])
+
+  // IMAGE MODE: Enter captures the drawn lasso and the multi-select, scrolling moves the drawn areas along
+  useEffect(() => {
+    if (mode !== "image" || (!selectedAreas.length && !pendingArea)) return
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key !== "Enter") return
+      e.preventDefault()
+      e.stopPropagation()
+      confirmLasso()
+    }
+    const onScroll = () => setScrollTick((tick) => tick + 1)
+    window.addEventListener("keydown", onKey, true)
+    window.addEventListener("scroll", onScroll, true)
+    return () => {
+      window.removeEventListener("keydown", onKey, true)
+      window.removeEventListener("scroll", onScroll, true)
+    }
+  }, [mode, selectedAreas, pendingArea])
 
   // DOM MODE hover + pick
   useEffect(() => {
     if (mode !== "dom") return
+    const inPickerPanel = (e: Event) => !!pickerPanelRef.current && e.composedPath().includes(pickerPanelRef.current)
+    // Pierces open shadow roots and same-origin iframes, skipping our own overlay
     const onMove = (e: MouseEvent) => {
-      const el = document.elementFromPoint(e.clientX, e.clientY) as HTMLElement
-      setHoverEl(el as HTMLElement)
+      if (hoverLocked || inPickerPanel(e)) return
+      const el = deepElementFromPoint(e.clientX, e.clientY, isOverlayHost) as HTMLElement
+      setHoverEl(el)
     }
     const onClick = async (e: MouseEvent) => {
+      if (inPickerPanel(e)) return // breadcrumb buttons
       e.preventDefault()
       e.stopPropagation()
-      const el = hoverEl || (e.target as HTMLElement)
+      const el = hoverEl || deepElementFromPoint(e.clientX, e.clientY, isOverlayHost) as HTMLElement
       if (!el) return
-      setPickedEl(el)
-      const html = serializeWithStyles(el)
-      setDomPreview(html)
-      setMode(null)
+      if (e.shiftKey) {
+        toggleSelected(el)
+      } else if (selectedEls.length) {
+        finishDomBatch(selectedEls.includes(el) ? selectedEls : [...selectedEls, el])
+      } else {
+        pickElement(el)
+      }
     }
     document.addEventListener("mousemove", onMove, true)
     document.addEventListener("click", onClick, true)
@@ -265,7 +553,71 @@ const Overlay = () => {
       document.removeEventListener("mousemove", onMove, true)
       document.removeEventListener("click", onClick, true)
     }
-  }, [mode, hoverEl])
+  }, [mode, hoverEl, hoverLocked, selectedEls])
+
+  // DOM MODE keyboard: walk the tree from the outlined element. Moving by keyboard locks
+  // the hover, so the next mouse move doesn't take the outline away again.
+  useEffect(() => {
+    if (mode !== "dom") return
+    const onKey = (e: KeyboardEvent) => {
+      let next: Element | null = null
+      switch (e.key) {
+        case " ":
+          setHoverLocked((locked) => !locked)
+          break
+        case "ArrowUp":
+          next = hoverEl && composedParent(hoverEl)
+          break
+        case "ArrowDown":
+          next = hoverEl && (composedChildren(hoverEl)[0] ?? null)
+          break
+        case "ArrowLeft":
+          next = hoverEl && composedSibling(hoverEl, -1)
+          break
+        case "ArrowRight":
+          next = hoverEl && composedSibling(hoverEl, 1)
+          break
+        case "Enter":
+          if (selectedEls.length) finishDomBatch(selectedEls)
+          else if (hoverEl) pickElement(hoverEl)
+          break
+        case "a":
+        case "A":
+          if (hoverEl) selectSimilar(hoverEl)
+          break
+        default:
+          return
+      }
+      e.preventDefault()
+      e.stopPropagation()
+      if (next) {
+        setHoverEl(next as HTMLElement)
+        setHoverLocked(true)
+      }
+    }
+    window.addEventListener("keydown", onKey, true)
+    return () => window.removeEventListener("keydown", onKey, true)
+  }, [mode, hoverEl, selectedEls])
+
+  // While recording: tick the elapsed time and stop at the length limit
+  useEffect(() => {
+    if (!recordingArea) return
+    const interval = window.setInterval(() => {
+      const elapsed = Date.now() - recordingArea.startedAt
+      setRecordingElapsed(elapsed)
+      if (elapsed >= MAX_RECORDING_MS) endRecording()
+    }, 250)
+    return () => clearInterval(interval)
+  }, [recordingArea])
+
+  // Tags used in earlier clips, refreshed whenever a preview or gallery opens
+  const hasCapture = !!(preview || domPreview || textPreview !== null || recording || batch.length)
+  useEffect(() => {
+    if (!hasCapture) return
+    request("LIBRARY_TAGS", {})
+      .then((res) => setKnownTags(res.tags))
+      .catch((error) => console.warn("⚠️ Could not load tags:", error.message))
+  }, [hasCapture])
 
   // FULL PAGE MODE capture
   useEffect(() => {
@@ -276,30 +628,42 @@ const Overlay = () => {
       setIsCapturing(true)
 
       try {
-        const res = await chrome.runtime.sendMessage({ type: "CAPTURE_FULL_PAGE" })
-
-        console.log("📸 Full page capture response:", res)
-
-        if (!res?.ok) {
-          console.error("❌ Full page capture failed:", res?.error)
-          alert("Full page capture failed: " + (res?.error ?? "unknown"))
-          return
-        }
+        setDesignTokens(extractDesignTokens({ root: document.body }, isOverlayHost))
+        setSuggestedTags(suggestTags({ root: document.body }, isOverlayHost))
+        // The overlay hides while a slice is captured and we only acknowledge the progress
+        // event once that is painted, so no slice ever contains the overlay. The masks are
+        // re-applied for every slice, the page has scrolled (and maybe shifted) since.
+        const { result: res, redactions } = await withRedactions(null, (remask) => request("CAPTURE_FULL_PAGE", {}, {
+          signal: abortRef.current.signal,
+          onProgress: (progress) => {
+            setFullPageProgress({ done: progress.done, total: progress.total })
+            setIsCapturing(progress.capturing)
+            if (progress.capturing) return remask()
+            return new Promise<void>((resolve) => requestAnimationFrame(() => requestAnimationFrame(() => resolve())))
+          }
+        }))
+        setRedactions(redactions)
 
-        const dataUrl: string = res.dataUrl
+        const dataUrl = res.dataUrl
         const pageDimensions = res.pageDimensions
         console.log("🖼️ Full page data URL length:", dataUrl.length)
         console.log("📏 Page dimensions:", pageDimensions)
+        if (res.truncated) console.warn("⚠️ Page was too tall, full page capture is truncated")
 
         setPreview(dataUrl)
+        setPreviewScale(res.scale)
         setMode(null)
         setIsCapturing(false)
+        setFullPageProgress(null)
         console.log("🎉 Full page preview set and mode cleared")
 
       } catch (error) {
-        console.error("❌ Error in full page capture process:", error)
-        alert("Error: " + error)
+        if (isCancelled(error)) return
+        console.error("❌ Full page capture failed:", error)
+        alert("Full page capture failed: " + error.message)
+        setMode(null)
         setIsCapturing(false)
+        setFullPageProgress(null)
       }
     }
 
@@ -307,13 +671,521 @@ const Overlay = () => {
     captureFullPage()
   }, [mode])
 
-  const doUpload = async () => {
+  /**
+   * Masks PII on the live page while `capture` runs, then restores it. Everything found
+   * is masked, but only what lies inside `scope` (client coordinates) ends up in the
+   * preview list, a lasso capture doesn't need to report the rest of the page.
+   * Blur boxes are measured where the page is scrolled to, so stitched captures call
+   * `remask` after every scroll: fixed and sticky elements move with the viewport.
+   */
+  const withRedactions = async <T,>(scope: Rect | null, capture: (remask: () => Promise<void>) => Promise<T>): Promise<{ result: T, redactions: RedactionItem[] }> => {
+    const settings = redactionSettingsRef.current
+    // Kept in document coordinates, the page scrolls underneath it between slices
+    const docScope = scope && toDocRect(scope, { x: window.scrollX, y: window.scrollY })
+    const found: RedactionTarget[] = []
+    let restore = () => {}
+
+    const mask = async () => {
+      restore()
+      const targets = detectRedactions(document.body, settings)
+      const area = docScope && toClientRect(docScope)
+      found.push(...(area
+        ? targets.filter((t) => targetRects(t).some((r) => r.right > area.x && r.left < area.x + area.w && r.bottom > area.y && r.top < area.y + area.h))
+        : targets))
+      restore = applyRedactions(targets, settings, redactionOverridesRef.current)
+      // Let the masks paint before the screenshot is taken
+      await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+    }
+
+    try {
+      await mask()
+      const result = await capture(mask)
+      return { result, redactions: summarizeRedactions(found) }
+    } finally {
+      restore()
+    }
+  }
+
+  /**
+   * Screenshots each area and crops it out. An area that fits in the viewport is one
+   * screenshot, taken where it was drawn if it was fully visible there; a larger one is
+   * stitched from viewport slices by the background (CAPTURE_REGION).
+   * Returns null (after telling the user) when a capture fails.
+   */
+  const captureAreas = async (areas: SelectedArea[]): Promise<Array<{ dataUrl: string, scale: ImageScale, redactions: RedactionItem[], designTokens: DesignTokens, suggestedTags: string[] }> | null> => {
+    // Hide overlays during capture
+    setIsCapturing(true)
+    const startScroll = { x: window.scrollX, y: window.scrollY }
+
+    // Small delay to ensure overlays are hidden before capture
+    await new Promise(resolve => setTimeout(resolve, 100))
+
+    try {
+      const shots: Array<{ dataUrl: string, scale: ImageScale, redactions: RedactionItem[], designTokens: DesignTokens, suggestedTags: string[] }> = []
+      const { density } = await getCaptureScaleSettings()
+      for (const { rect: area, scroll } of areas) {
+        // What a screenshot shows is the visual viewport, smaller than the window when pinch-zoomed
+        const viewport = viewportGeometry()
+        const region = toDocRect(area, scroll)
+        const fits = region.w <= viewport.width && region.h <= viewport.height
+        const visible = area.x >= viewport.offsetX && area.y >= viewport.offsetY &&
+          area.x + area.w <= viewport.offsetX + viewport.width && area.y + area.h <= viewport.offsetY + viewport.height
+        const target = !fits || visible
+          ? scroll
+          : { x: region.x - viewport.offsetX - (viewport.width - region.w) / 2, y: region.y - viewport.offsetY - (viewport.height - region.h) / 2 }
+        if (window.scrollX !== target.x || window.scrollY !== target.y) {
+          window.scrollTo({ left: target.x, top: target.y, behavior: "instant" })
+        }
+        // Where the browser actually scrolled to, it clamps at the page edges
+        const clientArea = toClientRect(region)
+        // Read before masking, redaction boxes aren't part of the design
+        const designTokens = extractDesignTokens({ rect: clientArea }, isOverlayHost)
+        const suggestedTags = suggestTags({ rect: clientArea }, isOverlayHost)
+        const signal = abortRef.current.signal
+        if (fits) {
+          const { result: res, redactions } = await withRedactions(clientArea, () => request("CAPTURE", {}, { signal }))
+          console.log("🖼️ Data URL length:", res.dataUrl.length)
+          const cropped = await cropToRect(res.dataUrl, clientArea, viewport, density)
+          console.log("✅ Cropped image created, length:", cropped.dataUrl.length)
+          const scale = { pixelRatio: cropped.pixelRatio, density, devicePixelRatio: viewport.devicePixelRatio, zoom: res.zoom, pinchZoom: viewport.pinchZoom }
+          shots.push({ dataUrl: cropped.dataUrl, scale, redactions, designTokens, suggestedTags })
+        } else {
+          const { result: res, redactions } = await withRedactions(clientArea, (remask) => request("CAPTURE_REGION", {
+            region: { x: region.x, y: region.y, width: region.w, height: region.h }
+          }, { signal, onProgress: (progress) => progress.capturing ? remask() : undefined }))
+          console.log("🖼️ Stitched region, data URL length:", res.dataUrl.length)
+          shots.push({ dataUrl: res.dataUrl, scale: res.scale, redactions, designTokens, suggestedTags })
+        }
+      }
+      return shots
+    } catch (error) {
+      if (isCancelled(error)) return null
+      console.error("❌ Capture failed:", error)
+      alert("Capture failed: " + error.message)
+      return null
+    } finally {
+      if (window.scrollX !== startScroll.x || window.scrollY !== startScroll.y) {
+        window.scrollTo({ left: startScroll.x, top: startScroll.y, behavior: "instant" })
+      }
+      setIsCapturing(false) // Restore overlays
+    }
+  }
+
+  const captureImageRect = async (area: Rect) => {
+    const shots = await captureAreas([{ rect: area, scroll: captureScrollRef.current }])
+    if (!shots) return
+    setRedactions(shots[0].redactions)
+    setPreview(shots[0].dataUrl)
+    setPreviewScale(shots[0].scale)
+    setDesignTokens(shots[0].designTokens)
+    setSuggestedTags(shots[0].suggestedTags)
+    setFrames([])
+    setStates([])
+    setMode(null)
+    console.log("🎉 Preview set and mode cleared")
+  }
+
+  // Re-derives the lasso from the pointer, also when the page scrolls under a still pointer
+  const trackPointer = () => {
+    const docX = pointerRef.current.x + window.scrollX
+    const docY = pointerRef.current.y + window.scrollY
+    if (drag) {
+      setRect(toClientRect(spanRect(drag.startX, drag.startY, docX, docY)))
+    } else if (adjust) {
+      const next = adjustRect(adjust.start, adjust.handle, docX - adjust.startX, docY - adjust.startY)
+      setPendingArea({ rect: toClientRect(next), scroll: { x: window.scrollX, y: window.scrollY } })
+    }
+  }
+
+  // The drawn lasso, together with a Shift-drawn selection if there is one
+  const confirmLasso = async () => {
+    const areas = pendingArea ? [...selectedAreas, pendingArea] : selectedAreas
+    if (!areas.length) return
+    setPendingArea(null)
+    if (selectedAreas.length) {
+      await finishImageBatch(areas)
+      return
+    }
+
+    console.log("✅ Starting capture process...")
+    const [area] = areas
+    captureScrollRef.current = area.scroll
+    const covering = elementCoveringRegion(toClientRect(toDocRect(area.rect, area.scroll)), isOverlayHost)
+    setPickedSelector(covering ? uniqueSelector(covering) : null)
+    setRect(area.rect)
+    await captureImageRect(area.rect)
+  }
+
+  const finishImageBatch = async (areas: SelectedArea[]) => {
+    const shots = await captureAreas(areas)
+    if (!shots) return
+    setSelectedAreas([])
+    setRect(null)
+    setBatch(shots.map((shot, i) => ({
+      ...emptyBatchItem("image"),
+      imageDataUrl: shot.dataUrl,
+      imageScale: shot.scale,
+      rect: areas[i].rect,
+      designTokens: shot.designTokens,
+      suggestedTags: shot.suggestedTags,
+      redactionCount: shot.redactions.filter((item) => !redactionOverridesRef.current.has(item.key)).length
+    })))
+    setMode(null)
+  }
+
+  const pickElement = (el: HTMLElement) => {
+    setPickedEl(el)
+    setPickedSelector(uniqueSelector(el))
+    setDesignTokens(extractDesignTokens({ root: el }))
+    setSuggestedTags(suggestTags({ root: el }))
+    setFrames([])
+    setStates([])
+    snapshotDom(el)
+    setMode(null)
+  }
+
+  // Snippets are redacted on the clone, the live page is never touched
+  const serializeDom = (el: HTMLElement) => {
+    let items: RedactionItem[] = []
+    const html = serializeWithStyles(el, {
+      onClone: (clone) => {
+        items = redactClone(clone, redactionSettingsRef.current, redactionOverridesRef.current)
+      }
+    })
+    return { html, redactions: items }
+  }
+
+  // When enabled in the options, images and fonts are embedded after the snippet is
+  // shown (see lib/dom-assets.ts)
+  const snapshotDom = async (el: HTMLElement) => {
+    const { html, redactions: items } = serializeDom(el)
+    const snapshotId = ++snapshotIdRef.current
+    setRedactions(items)
+    setDomPreview(html)
+    setAssetReport(null)
+
+    const assetSettings = await getAssetSettings()
+    if (!assetSettings.embedAssets || snapshotId !== snapshotIdRef.current) return
+    setIsEmbeddingAssets(true)
+    try {
+      const embedded = await embedAssets(html, assetSettings)
+      if (snapshotId !== snapshotIdRef.current) return
+      console.log("📦 Embedded assets:", embedded.report)
+      setDomPreview(embedded.html)
+      setAssetReport(embedded.report)
+    } catch (error) {
+      console.error("❌ Embedding assets failed:", error)
+    } finally {
+      if (snapshotId === snapshotIdRef.current) setIsEmbeddingAssets(false)
+    }
+  }
+
+  const toggleSelected = (el: HTMLElement) => {
+    setSelectedEls(prev => prev.includes(el) ? prev.filter((selected) => selected !== el) : [...prev, el])
+  }
+
+  const selectSimilar = (el: HTMLElement) => {
+    const similar = similarSiblings(el) as HTMLElement[]
+    setSelectedEls(prev => [...prev, ...similar.filter((candidate) => !prev.includes(candidate))])
+  }
+
+  const finishDomBatch = async (els: HTMLElement[]) => {
+    setMode(null)
+    setSelectedEls([])
+    setHoverEl(null)
+    setIsBatchBusy(true) // the gallery shows once every snippet is ready
+    try {
+      const assetSettings = await getAssetSettings()
+      const items: BatchItem[] = []
+      for (const el of els) {
+        const { html, redactions: found } = serializeDom(el)
+        const embedded = assetSettings.embedAssets ? await embedAssets(html, assetSettings) : null
+        items.push({
+          ...emptyBatchItem("dom"),
+          domHtml: embedded?.html ?? html,
+          selector: uniqueSelector(el),
+          designTokens: extractDesignTokens({ root: el }),
+          suggestedTags: suggestTags({ root: el }),
+          assetReport: embedded?.report ?? null,
+          redactionCount: found.filter((item) => !redactionOverridesRef.current.has(item.key)).length
+        })
+      }
+      setBatch(items)
+    } catch (error) {
+      console.error("❌ Error building DOM batch:", error)
+      alert("Error: " + error)
+    } finally {
+      setIsBatchBusy(false)
+    }
+  }
+
+  const updateBatchItem = (id: string, patch: Partial<BatchItem>) => {
+    setBatch(prev => prev.map((item) => item.id === id ? { ...item, ...patch } : item))
+  }
+
+  // Saves (and optionally queues) every item in the gallery. Items that made it are
+  // dropped from the gallery even if a later one fails, so nothing is saved twice.
+  const saveBatch = async (upload: boolean) => {
+    const batchId = crypto.randomUUID()
+    const done = new Set<string>()
+    setIsBatchBusy(true)
+    try {
+      const technical = await pageTechnologies()
+      for (const [index, item] of batch.entries()) {
+        const payload = buildPayload(item, technical)
+        payload.context.batch = { id: batchId, index, total: batch.length }
+        const clipId = await saveToLibrary(payload, item.mode)
+        if (upload) await queueUpload(payload, clipId)
+        done.add(item.id)
+      }
+      setBatch([])
+      if (!upload) setShowSavedToLibrary(true)
+    } catch (err: any) {
+      setBatch(prev => prev.filter((item) => !done.has(item.id)))
+      alert((upload ? "Kunde inte köa uppladdningen: " : "Kunde inte spara i biblioteket: ") + err?.message)
+    } finally {
+      setIsBatchBusy(false)
+    }
+  }
+
+  const resetSelection = () => {
+    setSelectedEls([])
+    setSelectedAreas([])
+    setPendingArea(null)
+    setDrag(null)
+    setAdjust(null)
+    setBatch([])
+  }
+
+  const resetAssetEmbedding = () => {
+    snapshotIdRef.current++
+    setAssetReport(null)
+    setIsEmbeddingAssets(false)
+  }
+
+  // Un-redacting (or re-redacting) an item means taking the capture again
+  const toggleRedaction = async (key: string) => {
+    if (annotations.length && !confirm("Changing redactions re-takes the capture and removes your annotations. Continue?")) return
+    const next = new Set(redactionOverridesRef.current)
+    if (next.has(key)) next.delete(key)
+    else next.add(key)
+    redactionOverridesRef.current = next
+    setRedactionOverrides(next)
+    setAnnotations([])
+    setFrames([])
+    setStates([])
+
+    if (captureMode === "dom" && pickedEl) {
+      await snapshotDom(pickedEl)
+    } else if (captureMode === "image" && rect) {
+      await captureImageRect(rect)
+    } else if (captureMode === "fullpage") {
+      setMode("fullpage")
+    }
+  }
+
+  /**
+   * Captures the picked element at every configured width (see lib/responsive.ts). It is
+   * re-located by its selector after each resize, since a re-render may have replaced it,
+   * and masked like any other capture. Widths where it isn't rendered get an empty frame.
+   */
+  const captureBreakpoints = async () => {
+    if (!pickedSelector) return
+    const { widths } = await getResponsiveSettings()
+    const startScroll = { x: window.scrollX, y: window.scrollY }
+    const height = window.innerHeight
+    const captured: ResponsiveFrame[] = []
+    setIsCapturing(true)
+
+    try {
+      await request("RESPONSIVE_START", {}, { signal: abortRef.current.signal })
+
+      for (const width of widths) {
+        await request("RESPONSIVE_EMULATE", { width, height }, { signal: abortRef.current.signal })
+        await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+        await new Promise(resolve => setTimeout(resolve, SETTLE_MS))
+
+        const el = querySelectorDeep(pickedSelector)
+        const dataUrl = el && await captureElementClip(el)
+        if (!dataUrl) console.warn("⚠️ Element not rendered at width", width)
+        captured.push({
+          width,
+          base64_file: dataUrl,
+          context: { viewport: { width: window.innerWidth, height: window.innerHeight, devicePixelRatio: window.devicePixelRatio } }
+        })
+      }
+      console.log("📐 Breakpoint frames:", captured.map((frame) => frame.width))
+      setFrames(captured)
+    } catch (error) {
+      if (isCancelled(error)) return
+      console.error("❌ Breakpoint capture failed:", error)
+      alert("Kunde inte fånga brytpunkterna: " + error.message)
+    } finally {
+      await request("RESPONSIVE_END", {}).catch((error) => console.error("❌ Could not end emulation:", error))
+      window.scrollTo({ left: startScroll.x, top: startScroll.y, behavior: "instant" })
+      setIsCapturing(false)
+    }
+  }
+
+  /**
+   * Captures the picked element in each of its interactive states (see lib/element-states.ts),
+   * a screenshot plus a serialized snippet per state. State snippets keep absolute asset URLs.
+   */
+  const captureStates = async () => {
+    if (!pickedEl) return
+    const el = pickedEl
+    const captured: StateCapture[] = []
+    setIsCapturing(true)
+
+    try {
+      el.setAttribute(STATE_TARGET_ATTRIBUTE, "")
+      await request("STATES_START", {}, { signal: abortRef.current.signal })
+      el.removeAttribute(STATE_TARGET_ATTRIBUTE)
+
+      for (const state of relevantStates(el)) {
+        await request("STATES_FORCE", { state }, { signal: abortRef.current.signal })
+        const restore = applyElementState(el, state)
+        try {
+          await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+          await new Promise(resolve => setTimeout(resolve, SETTLE_MS))
+          const { html } = serializeDom(el)
+          captured.push({ state, base64_file: await captureElementClip(el), domHtml: html })
+        } finally {
+          restore()
+        }
+      }
+      console.log("🎛️ State captures:", captured.map((capture) => capture.state))
+      setStates(captured)
+    } catch (error) {
+      if (isCancelled(error)) return
+      console.error("❌ State capture failed:", error)
+      alert("Kunde inte fånga tillstånden: " + error.message)
+    } finally {
+      el.removeAttribute(STATE_TARGET_ATTRIBUTE)
+      await request("STATES_END", {}).catch((error) => console.error("❌ Could not end state capture:", error))
+      setIsCapturing(false)
+    }
+  }
+
+  // Masked screenshot of an element through the attached debugger, null when it has no box
+  const captureElementClip = async (el: Element): Promise<string | null> => {
+    const box = rectInTopWindow(el)
+    if (!box.width || !box.height) return null
+    const clip = { x: box.left + window.scrollX, y: box.top + window.scrollY, width: box.width, height: box.height }
+    const { result: shot } = await withRedactions(null, () => request("CAPTURE_CLIP", { clip }, { signal: abortRef.current.signal }))
+    return shot.dataUrl
+  }
+
+  // Films `area` (viewport coordinates) through tabCapture, see lib/recording.ts
+  const beginRecording = async (area: Rect) => {
+    setMode(null)
+    // Let the mode overlay disappear before the first frame
+    await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+    try {
+      await request("RECORD_START", {
+        request: { rect: area, viewport: { width: window.innerWidth, height: window.innerHeight, devicePixelRatio: window.devicePixelRatio } }
+      })
+    } catch (error) {
+      console.error("❌ Recording failed to start:", error)
+      alert("Kunde inte starta inspelningen: " + error.message + "\nStarta den från GrebRef-popupen (Record) eller med kortkommandot, så får tillägget filma fliken.")
+      setRect(null)
+      return
+    }
+    isRecordingRef.current = true
+    setRecordingElapsed(0)
+    setRecordingArea({ rect: area, startedAt: Date.now() })
+  }
+
+  const endRecording = async () => {
+    if (!isRecordingRef.current) return
+    isRecordingRef.current = false
+    setRecordingArea(null)
+    let clip: Recording
+    try {
+      clip = (await request("RECORD_STOP", {})).recording
+    } catch (error) {
+      console.error("❌ Recording failed:", error)
+      alert("Inspelningen misslyckades: " + error.message)
+      return
+    }
+    console.log("🎬 Recording ready:", clip.durationMs, "ms")
+    setRecording(clip)
+    setTrim({ startMs: 0, endMs: clip.durationMs })
+  }
+
+  const resetRecording = () => {
+    if (isRecordingRef.current) {
+      isRecordingRef.current = false
+      request("RECORD_STOP", {}).catch(() => {}) // the clip is thrown away
+    }
+    setRecordingArea(null)
+    setRecording(null)
+    setIsExporting(false)
+  }
+
+  const resetRedactions = () => {
+    redactionOverridesRef.current = new Set()
+    setRedactionOverrides(new Set())
+    setRedactions([])
+  }
+
+  const currentContent = (): CaptureContent => ({
+    description: desc,
+    tags,
+    imageDataUrl: preview,
+    imageScale: previewScale,
+    domHtml: domPreview,
+    text: textPreview,
+    sourceUrl,
+    selector: pickedSelector,
+    rect,
+    annotations,
+    assetReport,
+    frames,
+    states,
+    designTokens,
+    recording: null
+  })
+
+  // Recordings are trimmed and converted when they are saved, not on every slider move.
+  // Pixelated regions are burnt in here, so uploads, the library and exports never get the raw pixels.
+  const contentToSave = async (): Promise<CaptureContent> => {
+    const content = currentContent()
+    if (content.imageDataUrl) Object.assign(content, await burnRedactions(content.imageDataUrl, content.annotations))
+    if (!recording) return content
+    setIsExporting(true)
+    try {
+      const dataUrl = await exportRecording(recording, trim, recordFormat)
+      return { ...content, recording: { dataUrl, format: recordFormat, trim, durationMs: trim.endMs - trim.startMs } }
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  /**
+   * Frameworks and design systems of the page, fingerprinted in its main world by the
+   * background (see lib/fingerprint.ts). Cached per URL, SPA navigations can change it.
+   */
+  const pageTechnologies = async (): Promise<TechnicalContext | null> => {
+    if (technicalRef.current?.url === location.href) return technicalRef.current.technical
+    try {
+      const { technical } = await request("FINGERPRINT", {})
+      technicalRef.current = { url: location.href, technical }
+      return technical
+    } catch (error) {
+      console.warn("⚠️ Fingerprinting failed:", error.message)
+      return null
+    }
+  }
+
+  const buildPayload = (content: CaptureContent, technical: TechnicalContext | null) => {
+    const { imageDataUrl, domHtml, rect } = content
     // Enhanced payload with additional context data
     const payload: any = {
       url: location.href,
       title: document.title,
-      description: desc,
-      // tags: tags.split(",").map((t) => t.trim()).filter(Boolean),
+      description: content.description,
+      tags: parseTags(content.tags),
       // type: preview ? "image" : "dom"
 
       // Enhanced context data for better reference library
@@ -337,21 +1209,17 @@ const Overlay = () => {
           timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
         },
 
-        // Design context
+        // Design context: page defaults plus the tokens used in the captured subtree or region
         design: {
           colorScheme: window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light',
-          primaryColor: getComputedStyle(document.documentElement).getPropertyValue('--primary-color') || null,
+          primaryColor: content.designTokens?.primaryColor ?? null,
           fontFamily: getComputedStyle(document.documentElement).fontFamily,
-          fontSize: getComputedStyle(document.documentElement).fontSize
+          fontSize: getComputedStyle(document.documentElement).fontSize,
+          ...content.designTokens
         },
 
-        // Technical context
-        technical: {
-          framework: detectFramework(),
-          cssFramework: detectCSSFramework(),
-          hasShadowDOM: document.querySelector('*').shadowRoot !== null,
-          cssVariables: extractCSSVariables(document.documentElement)
-        },
+        // Technical context: detected technologies with versions and confidence
+        technical,
 
         // Component context (if we have a selected element)
         component: rect ? {
@@ -364,77 +1232,341 @@ const Overlay = () => {
       }
     }
 
-    if (preview) payload.base64_file = preview
-    if (domPreview) payload.domHtml = domPreview
+    if (imageDataUrl) payload.base64_file = imageDataUrl
+    // Image pixels per CSS pixel, the library shows the image at its size on the page
+    if (imageDataUrl && content.imageScale) {
+      const { pixelRatio, ...scale } = content.imageScale
+      payload.image_scale = pixelRatio
+      payload.context.viewport = { ...payload.context.viewport, ...scale }
+    }
+    if (domHtml) payload.domHtml = domHtml
+    if (domHtml && content.selector) payload.selector = content.selector
+    if (domHtml && content.assetReport) payload.context.assets = content.assetReport
+    // Annotations travel as a separate layer so the library can toggle them
+    if (imageDataUrl && content.annotations.length) payload.annotations = content.annotations
+    // One reference with a frame per breakpoint, each with the viewport it was taken at
+    if (content.frames.length) payload.frames = content.frames
+    // State matrix: the resting capture plus one per forced state, each with its own snippet
+    if (content.states.length) payload.states = content.states
+    // Text references carry the selection instead of a file
+    if (content.text !== null) {
+      payload.text = content.text
+      payload.media_type = "text"
+    }
+    if (content.sourceUrl) payload.context.source = { url: content.sourceUrl }
+    // Recordings go to the same endpoint, marked with their own media type
+    if (content.recording) {
+      const { dataUrl, ...recordingContext } = content.recording
+      payload.base64_file = dataUrl
+      payload.media_type = "video"
+      payload.context.recording = recordingContext
+    }
+    return payload
+  }
+
+  // Every capture is kept in the local library, uploading is an extra step on top
+  const saveToLibrary = async (payload: any, clipMode: Mode): Promise<string> => {
+    const { clipId } = await request("LIBRARY_SAVE", { payload, mode: clipMode, tags: payload.tags })
+    return clipId
+  }
+
+  // The background queue owns the clip from here on and retries until it is uploaded
+  const queueUpload = async (payload: any, clipId: string) => {
+    const { upload } = await request("UPLOAD_ENQUEUE", { payload, clipId })
+    ownUploadIdsRef.current.add(upload.id)
+    setUploads(prev => prev.some(u => u.id === upload.id) ? prev : [...prev, upload])
+    return upload.id
+  }
+
+  const doSaveLocally = async () => {
     try {
-      const res = await fetch(BACKEND_URL, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload)
-      })
-      if (!res.ok) throw new Error(`${res.status} ${res.statusText}`)
-
-      // Extract UUID from response
-      const responseData = await res.json()
-      const uuid = responseData.uuid
-      if (uuid) {
-        setUploadedUuid(uuid)
-        setShowUploadSuccess(true)
-      }
+      await saveToLibrary(buildPayload(await contentToSave(), await pageTechnologies()), captureMode ?? (preview ? "image" : "dom"))
+      setPreview(null)
+      setDomPreview(null)
+      setTextPreview(null)
+      setRecording(null)
+      setDesc("")
+      setTags("")
+      setAnnotations([])
+      setShowSavedToLibrary(true)
+    } catch (err: any) {
+      alert("Kunde inte spara i biblioteket: " + err?.message)
+    }
+  }
+
+  const doUpload = async () => {
+    try {
+      const payload = buildPayload(await contentToSave(), await pageTechnologies())
+      const clipId = await saveToLibrary(payload, captureMode ?? (preview ? "image" : "dom"))
+      setPendingUploadId(await queueUpload(payload, clipId))
+    } catch (err: any) {
+      alert("Kunde inte köa uppladdningen: " + err?.message)
+    }
+  }
 
+  // Copies only need what is in the preview, files are built from the upload payload
+  const exportCapture = async (action: ExportAction) => {
+    try {
+      if (action === "copy-image") return await copyImage(annotatedPreview ?? preview!)
+      if (action === "copy-html") return await copyHtml(domPreview!)
+      if (action === "copy-text") return await navigator.clipboard.writeText(textPreview!)
+
+      const content = await contentToSave()
+      const payload = buildPayload(content, await pageTechnologies())
+      const image = annotatedPreview ?? preview
+      const media = content.recording?.dataUrl ?? image
+      if (action === "download-file") {
+        downloadDataUrl(media!, exportFilename(payload, fileExtension(media!.slice(5, media!.indexOf(";")))))
+      } else if (action === "download-zip") {
+        downloadBlob(await buildBundle(payload, media), exportFilename(payload, "zip"))
+      } else if (action === "card-markdown") {
+        downloadBlob(new Blob([referenceCardMarkdown(payload, image)], { type: "text/markdown" }), exportFilename(payload, "md"))
+      } else if (action === "card-html") {
+        downloadBlob(new Blob([referenceCardHtml(payload, image)], { type: "text/html" }), exportFilename(payload, "html"))
+      }
     } catch (err: any) {
-      alert("Upload misslyckades: " + err?.message)
+      alert("Exporten misslyckades: " + err?.message)
     }
   }
 
+  const retryUpload = (id: string) => request("UPLOAD_RETRY", { id }).catch((error) => alert("Kunde inte försöka igen: " + error.message))
+  const discardUpload = (id: string) => request("UPLOAD_DISCARD", { id }).catch((error) => alert("Kunde inte ta bort uppladdningen: " + error.message))
+  // Sign-in runs in the background, which also re-queues everything that waited for it
+  const signIn = async (profileId: string) => {
+    await request("AUTH_SIGN_IN", { profileId }).catch((error) => alert("Inloggningen misslyckades: " + error.message))
+  }
+  const bindingLabel = (command: CaptureCommand) => commandBindings?.[command] ? ` (${commandBindings[command]})` : ""
+  const uploadTray = <UploadQueueTray uploads={uploads} onRetry={retryUpload} onDiscard={discardUpload} onSignIn={signIn} />
+  const pendingUpload = pendingUploadId ? uploads.find(u => u.id === pendingUploadId) : null
+
   // Render
-  if (!mode && !preview && !domPreview && !showUploadSuccess) return (
-    <FloatingHint />
+  if (!mode && !preview && !domPreview && textPreview === null && !recordingArea && !recording && !batch.length && !isBatchBusy && !showUploadSuccess && !showSavedToLibrary) return (
+    <>
+      <FloatingHint
+        commandBindings={commandBindings}
+        inPageBindings={shortcutSettings.inPageSites.includes(location.hostname) ? shortcutSettings.inPageBindings : null}
+      />
+      {uploadTray}
+    </>
   )
 
   return (
     <>
-      {(mode === "image") && !isCapturing && (
+      {!mode && !isCapturing && !recordingArea && uploadTray}
+      {(mode === "image" || mode === "record") && !isCapturing && (
         <div className="fixed inset-0 z-overlay cursor-crosshair bg-black/5">
-          <div className="fixed top-2.5 left-1/2 -translate-x-1/2 px-2.5 py-1.5 text-xs leading-tight font-sans bg-black/70 text-white rounded-md z-hint">IMAGE mode (Ctrl+S). Drag to select area. Esc to cancel.</div>
+          <div className="fixed top-2.5 left-1/2 -translate-x-1/2 px-2.5 py-1.5 text-xs leading-tight font-sans bg-black/70 text-white rounded-md z-hint">
+            {mode === "record" ? (
+              <>RECORD mode{bindingLabel("record")}. Drag to select the area to film, then use the page. Esc to cancel.</>
+            ) : (
+              <>
+                IMAGE mode{bindingLabel("capture-image")}. Drag to select area (the page scrolls near the edges), Shift-drag to add it to a selection
+                {pendingArea ? ". Adjust it with the handles, Enter captures" : ""}
+                {selectedAreas.length ? ` (${selectedAreas.length} selected, Enter captures them)` : ""}. Esc to cancel.
+              </>
+            )}
+          </div>
+          {selectedAreas.map(({ rect: area, scroll }, i) => (
+            <div
+              key={i}
+              className="fixed border-2 border-green-500 pointer-events-none bg-green-500/15"
+              style={{ left: area.x + scroll.x - window.scrollX, top: area.y + scroll.y - window.scrollY, width: area.w, height: area.h }}
+            />
+          ))}
           {rect && <div className="fixed border-2 border-blue-600 border-dashed pointer-events-none bg-blue-500/15" style={{ left: rect.x, top: rect.y, width: rect.w, height: rect.h }} />}
+          {pendingArea && <LassoFrame rect={toClientRect(toDocRect(pendingArea.rect, pendingArea.scroll))} />}
+          {pendingArea && !adjust && (
+            <LassoBar
+              barRef={lassoBarRef}
+              rect={toClientRect(toDocRect(pendingArea.rect, pendingArea.scroll))}
+              onCapture={confirmLasso}
+              onDiscard={() => setPendingArea(null)}
+            />
+          )}
         </div>
       )}
       {(mode === "dom") && (
         <>
           <div className="fixed inset-0 z-[2147483646] bg-black/4 cursor-crosshair" />
-          {hoverEl && <OutlineBox el={hoverEl} />}
-          <div className="fixed top-2.5 left-1/2 -translate-x-1/2 px-2.5 py-1.5 text-xs leading-tight font-sans bg-black/70 text-white rounded-md z-hint">DOM mode (Ctrl+D). Hover and click to select element. Esc to cancel.</div>
+          {selectedEls.map((el, i) => <OutlineBox key={i} el={el} selected />)}
+          {hoverEl && <OutlineBox el={hoverEl} showLabel />}
+          <div ref={pickerPanelRef} className="fixed top-2.5 left-1/2 -translate-x-1/2 flex flex-col gap-1 px-2.5 py-1.5 max-w-[90vw] text-xs leading-tight font-sans bg-black/80 text-white rounded-md z-[2147483647]">
+            <div>
+              DOM mode{bindingLabel("capture-dom")}. Hover and click to select element. ↑ parent, ↓ child, ←/→ siblings,
+              Space {hoverLocked ? "unlocks" : "locks"} hover, Enter selects. Shift-click adds to a selection. Esc to cancel.
+            </div>
+            <div className="flex gap-2">
+              <button className="px-2 py-1 text-xs text-white border-0 rounded-md cursor-pointer bg-white/10 hover:bg-white/20 disabled:opacity-40" disabled={!hoverEl} onClick={() => selectSimilar(hoverEl!)}>
+                Select all similar (A)
+              </button>
+              {selectedEls.length > 0 && (
+                <button className="px-2 py-1 text-xs text-white bg-blue-600 border-0 rounded-md cursor-pointer" onClick={() => finishDomBatch(selectedEls)}>
+                  Capture {selectedEls.length} selected (Enter)
+                </button>
+              )}
+            </div>
+            {hoverEl && (
+              <DomBreadcrumb
+                el={hoverEl}
+                onSelect={(el) => {
+                  setHoverEl(el as HTMLElement)
+                  setHoverLocked(true)
+                }}
+              />
+            )}
+          </div>
         </>
       )}
-      {(mode === "fullpage") && (
+      {(mode === "fullpage") && !isCapturing && (
         <div className="fixed top-2.5 left-1/2 -translate-x-1/2 px-2.5 py-1.5 text-xs leading-tight font-sans bg-black/70 text-white rounded-md z-hint">
-          Full page capture (Ctrl+F). Capturing entire page... Esc to cancel.
+          Full page capture{bindingLabel("capture-fullpage")}. Capturing entire page
+          {fullPageProgress ? ` (${fullPageProgress.done}/${fullPageProgress.total})` : ""}... Esc to cancel.
         </div>
       )}
-      {(preview || domPreview) && !showUploadSuccess && (
+      {recordingArea && <RecordingIndicator area={recordingArea.rect} elapsedMs={recordingElapsed} onStop={endRecording} />}
+      {isAnnotating && preview && (
+        <AnnotationEditor
+          imageDataUrl={preview}
+          annotations={annotations}
+          onCancel={() => setIsAnnotating(false)}
+          onDone={(imageDataUrl, next) => {
+            setPreview(imageDataUrl)
+            setAnnotations(next)
+            setIsAnnotating(false)
+          }}
+        />
+      )}
+      {(preview || domPreview || textPreview !== null || recording) && !showUploadSuccess && !isAnnotating && !mode && !isCapturing && (
         <div className="fixed right-5 bottom-5 z-overlay flex gap-3 p-3 bg-gray-900 text-gray-200 rounded-xl shadow-2xl max-w-[min(90vw,640px)]">
-          {preview && <img src={preview} alt="GrebRef" className="block object-contain bg-black rounded-lg max-w-80 max-h-60" />}
+          {preview && (
+            <div className="flex flex-col gap-1.5">
+              <img src={annotatedPreview ?? preview} alt="GrebRef" className="block object-contain bg-black rounded-lg max-w-80 max-h-60" />
+              <button className="px-2.5 py-1.5 rounded-lg border border-gray-600 bg-transparent text-gray-300 text-xs font-sans cursor-pointer" onClick={() => setIsAnnotating(true)}>
+                Annotate{annotations.length ? ` (${annotations.length})` : ""}
+              </button>
+            </div>
+          )}
+          {recording && (
+            <RecordingEditor recording={recording} trim={trim} format={recordFormat} busy={isExporting} onTrim={setTrim} onFormat={setRecordFormat} />
+          )}
           {domPreview && (
             <div className="flex flex-col gap-1.5 w-80 max-h-65">
               <div className="text-xs font-semibold text-gray-300">DOM snippet</div>
+              {pickedSelector && <code className="text-xs text-gray-400 truncate" title={pickedSelector}>{pickedSelector}</code>}
               <textarea className="w-full p-2 font-mono text-xs leading-snug text-gray-300 bg-gray-800 border border-gray-600 rounded-lg resize-y h-55" readOnly value={domPreview} />
+              <AssetReportLine report={assetReport} isEmbedding={isEmbeddingAssets} />
+            </div>
+          )}
+          {textPreview !== null && (
+            <div className="flex flex-col gap-1.5 w-80 max-h-65">
+              <div className="text-xs font-semibold text-gray-300">Text reference</div>
+              {pickedSelector && <code className="text-xs text-gray-400 truncate" title={pickedSelector}>{pickedSelector}</code>}
+              <textarea className="w-full p-2 text-xs leading-snug text-gray-300 bg-gray-800 border border-gray-600 rounded-lg resize-y h-55" readOnly value={textPreview} />
             </div>
           )}
           <div className="flex flex-col gap-2 w-70">
             <input className="w-full px-2.5 py-2 rounded-lg border border-gray-600 bg-gray-800 text-gray-200 text-xs font-sans" placeholder="Description (optional)" value={desc} onChange={(e) => setDesc(e.target.value)} />
-            <input className="w-full px-2.5 py-2 rounded-lg border border-gray-600 bg-gray-800 text-gray-200 text-xs font-sans" placeholder="Tags, comma-separated" value={tags} onChange={(e) => setTags(e.target.value)} />
+            <TagInput
+              className="w-full px-2.5 py-2 rounded-lg border border-gray-600 bg-gray-800 text-gray-200 text-xs font-sans"
+              value={tags}
+              suggestions={suggestedTags}
+              knownTags={knownTags}
+              onChange={setTags}
+            />
+            <RedactionList items={redactions} overrides={redactionOverrides} onToggle={toggleRedaction} />
+            {designTokens && <DesignTokenSummary tokens={designTokens} />}
+            {pickedSelector && captureMode !== "fullpage" && (
+              <FrameStrip
+                frames={frames.map((frame) => ({ key: String(frame.width), label: String(frame.width), dataUrl: frame.base64_file }))}
+                action={frames.length ? "Re-capture breakpoints" : "Capture breakpoints"}
+                title={pickedSelector}
+                onCapture={captureBreakpoints}
+              />
+            )}
+            {pickedEl && captureMode === "dom" && (
+              <FrameStrip
+                frames={states.map((capture) => ({ key: capture.state, label: capture.state, dataUrl: capture.base64_file }))}
+                action={states.length ? "Re-capture states" : "Capture states"}
+                title="Hover, focus, active and, for form controls, checked/disabled"
+                onCapture={captureStates}
+              />
+            )}
             <div className="flex flex-col gap-2 mt-auto">
-              <button className="px-2.5 py-2 border-0 rounded-lg bg-blue-600 text-white text-xs font-sans cursor-pointer" onClick={doUpload}>Upload</button>
+              {pendingUpload ? (
+                <div className="flex flex-col gap-1 px-0.5 py-1 text-xs font-sans text-gray-300">
+                  <div>{uploadProgressText(pendingUpload)}</div>
+                  <UploadProgressBar upload={pendingUpload} />
+                </div>
+              ) : (
+                <>
+                  <button className="px-2.5 py-2 border-0 rounded-lg bg-blue-600 text-white text-xs font-sans cursor-pointer disabled:opacity-40" disabled={isEmbeddingAssets || isExporting} onClick={doUpload}>Upload</button>
+                  <button className="px-2.5 py-2 rounded-lg border border-gray-600 bg-transparent text-gray-300 text-xs font-sans cursor-pointer disabled:opacity-40" disabled={isEmbeddingAssets || isExporting} onClick={doSaveLocally}>Save to library only</button>
+                </>
+              )}
               <div className="flex flex-row gap-2">
-                {preview && <button className="px-2.5 whitespace-nowrap flex-1 py-2 border-0 rounded-lg bg-blue-600 text-white text-xs font-sans cursor-pointer" onClick={() => downloadDataUrl(preview!, "snip.png")}>Download</button>}
+                <ExportMenu
+                  actions={[
+                    ...(preview ? ["copy-image" as const] : []),
+                    ...(domPreview ? ["copy-html" as const] : []),
+                    ...(textPreview !== null ? ["copy-text" as const] : []),
+                    ...(preview || recording ? ["download-file" as const] : []),
+                    "download-zip" as const,
+                    ...(recording ? [] : ["card-markdown" as const, "card-html" as const])
+                  ]}
+                  fileLabel={recording ? "Download recording" : "Download image"}
+                  disabled={isEmbeddingAssets || isExporting}
+                  onExport={exportCapture}
+                />
                 <button className="px-2.5 whitespace-nowrap flex-1 py-2 border-0 rounded-lg bg-blue-600 text-white text-xs font-sans cursor-pointer" onClick={resetAll}>Close</button>
               </div>
             </div>
           </div>
         </div>
       )}
-      {showUploadSuccess && uploadedUuid && (
+      {isBatchBusy && !batch.length && (
+        <div className="fixed right-5 bottom-5 z-overlay px-3 py-2 text-xs font-sans bg-gray-900 text-gray-300 rounded-xl shadow-2xl">Preparing snippets…</div>
+      )}
+      {batch.length > 0 && !showUploadSuccess && !mode && !isCapturing && (
+        <BatchGallery
+          items={batch}
+          knownTags={knownTags}
+          busy={isBatchBusy}
+          onChange={updateBatchItem}
+          onRemove={(id) => setBatch(prev => prev.filter((item) => item.id !== id))}
+          onUpload={() => saveBatch(true)}
+          onSave={() => saveBatch(false)}
+          onClose={resetAll}
+        />
+      )}
+      {showSavedToLibrary && !showUploadSuccess && (
+        <div className="fixed right-5 bottom-5 z-overlay flex flex-col gap-3 p-3 w-80 bg-gray-900 text-gray-200 rounded-xl shadow-2xl">
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+            <div className="text-sm font-semibold text-green-400">Saved to library</div>
+          </div>
+          <div className="text-xs text-gray-300">
+            The reference is stored locally. Sync it to the backend from the library whenever you like.
+          </div>
+          <div className="flex flex-row gap-2">
+            <button
+              className="flex-1 px-3 py-2 font-sans text-xs text-white border-0 rounded-lg bg-blue-600 hover:bg-blue-700 cursor-pointer"
+              onClick={() => {
+                request("OPEN_LIBRARY", {}).catch((error) => console.error("❌ Could not open the library:", error))
+                setShowSavedToLibrary(false)
+              }}
+            >
+              Open library →
+            </button>
+            <button
+              className="flex-1 px-3 py-2 font-sans text-xs text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-800 cursor-pointer"
+              onClick={() => setShowSavedToLibrary(false)}
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+      {showUploadSuccess && uploadedUrl && (
         <div
           className="fixed right-5 bottom-5 z-overlay flex gap-3 p-3 bg-gray-900 text-gray-200 rounded-xl shadow-2xl max-w-[min(90vw,640px)]"
           id="uploaded-container"
@@ -460,14 +1592,14 @@ const Overlay = () => {
             </div>
             <div className="flex flex-col gap-2">
               <a
-                href={`${FRONTEND_URL}/library/${uploadedUuid}`}
+                href={uploadedUrl}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="px-3 py-2 font-sans text-xs text-center text-white transition-colors bg-blue-600 rounded-lg hover:bg-blue-700"
                 onClick={() => {
                   // Hide popup when user clicks the link
                   setShowUploadSuccess(false)
-                  setUploadedUuid(null)
+                  setUploadedUrl(null)
                   setTimeLeft(15)
                 }}
               >
@@ -478,7 +1610,7 @@ const Overlay = () => {
                 onClick={() => {
                   // Hide popup when user clicks close
                   setShowUploadSuccess(false)
-                  setUploadedUuid(null)
+                  setUploadedUrl(null)
                   setTimeLeft(15)
                 }}
               >
@@ -491,43 +1623,182 @@ const Overlay = () => {
     </>
   )
 
+  function runCommand(command: CaptureCommand) {
+    console.log("⌨️ Command:", command)
+    if (command === "capture-image") activateImageMode()
+    else if (command === "capture-dom") activateDomMode()
+    else if (command === "capture-fullpage") activateFullPageMode()
+    else if (command === "record") activateRecordMode()
+  }
+
   function activateImageMode() {
     setMode("image")
-    setRect(null)
-    setPreview(null)
-    setDomPreview(null)
-    setDesc("")
-    setTags("")
+    startCapture("image")
   }
   function activateDomMode() {
     setMode("dom")
-    setRect(null)
-    setPreview(null)
-    setDomPreview(null)
-    setDesc("")
-    setTags("")
+    setHoverLocked(false)
+    startCapture("dom")
   }
 
   function activateFullPageMode() {
     setMode("fullpage")
+    startCapture("fullpage")
+  }
+  function activateRecordMode() {
+    setMode("record")
+    startCapture("record")
+  }
+
+  // Clears whatever the previous capture left behind
+  function startCapture(next: Mode) {
+    cancelRequests()
+    setPendingUploadId(null)
+    setCaptureMode(next)
+    setShowSavedToLibrary(false)
     setRect(null)
     setPreview(null)
+    setPreviewScale(null)
     setDomPreview(null)
+    setTextPreview(null)
+    setSourceUrl(null)
     setDesc("")
     setTags("")
+    setAnnotations([])
+    resetRedactions()
+    resetAssetEmbedding()
+    resetSelection()
+    setFrames([])
+    setStates([])
+    setDesignTokens(null)
+    setSuggestedTags([])
+    resetRecording()
+  }
+
+  function runContextMenu(request: ContextMenuRequest) {
+    console.log("🖱️ Context menu:", request.action)
+    // A right-click inside an iframe leaves the top-frame target stale
+    const target = request.frameId === 0 ? contextTargetRef.current as HTMLElement | null : null
+    if (request.action === "snip-element") snipElement(target)
+    else if (request.action === "capture-visible") captureVisibleArea()
+    else if (request.action === "capture-fullpage") activateFullPageMode()
+    else if (request.action === "save-image" && request.srcUrl) saveImageReference(request.srcUrl, target)
+    else if (request.action === "save-selection") saveTextReference(request.selectionText ?? "")
+  }
+
+  // DOM mode with the outline locked on the right-clicked node: arrows adjust, Enter picks
+  function snipElement(target: HTMLElement | null) {
+    activateDomMode()
+    if (!target) return
+    setHoverEl(target)
+    setHoverLocked(true)
   }
+
+  async function captureVisibleArea() {
+    startCapture("image")
+    // What the screenshot shows: the visual viewport, without scrollbars
+    const viewport = viewportGeometry()
+    const area = { x: viewport.offsetX, y: viewport.offsetY, w: viewport.width, h: viewport.height }
+    captureScrollRef.current = { x: window.scrollX, y: window.scrollY }
+    setRect(area)
+    await captureImageRect(area)
+  }
+
+  /**
+   * The image file itself, fetched by the background (it may be cross-origin). Inline and
+   * blob: images, and images the fetch fails for, fall back to a screenshot of the element.
+   */
+  async function saveImageReference(srcUrl: string, target: HTMLElement | null) {
+    startCapture("image")
+    const img = target?.closest("img, picture, svg, canvas") as HTMLElement | null ?? target
+    const bounds = img ? rectInTopWindow(img) : null
+    const area = bounds ? { x: bounds.left, y: bounds.top, w: bounds.width, h: bounds.height } : null
+    if (img) {
+      setPickedSelector(uniqueSelector(img))
+      setSuggestedTags(suggestTags({ root: img }, isOverlayHost))
+    }
+    setRect(area)
+
+    let dataUrl = srcUrl.startsWith("data:image/") ? srcUrl : null
+    if (!dataUrl && /^https?:/i.test(srcUrl)) {
+      try {
+        const asset = await request("FETCH_ASSET", { url: srcUrl, maxBytes: MAX_IMAGE_REFERENCE_BYTES }, { signal: abortRef.current.signal })
+        if (asset.dataUrl.startsWith("data:image/")) dataUrl = asset.dataUrl
+      } catch (error) {
+        if (isCancelled(error)) return
+        console.warn("⚠️ Fetching the image failed, capturing it from the page:", error.message)
+      }
+    }
+    if (dataUrl) {
+      setPreview(dataUrl)
+      setSourceUrl(srcUrl)
+      return
+    }
+    if (!area) {
+      alert("Kunde inte hämta bilden.")
+      return
+    }
+    captureScrollRef.current = { x: window.scrollX, y: window.scrollY }
+    await captureImageRect(area)
+    setSourceUrl(srcUrl)
+  }
+
+  // Chrome collapses whitespace in the menu's selection text, the live selection keeps line breaks
+  function saveTextReference(selectionText: string) {
+    const selection = window.getSelection()
+    const text = selection?.toString().trim() || selectionText
+    const range = selection?.rangeCount ? selection.getRangeAt(0) : null
+    startCapture("text")
+    setTextPreview(text)
+    if (!range) return
+    const bounds = range.getBoundingClientRect()
+    setRect({ x: bounds.left, y: bounds.top, w: bounds.width, h: bounds.height })
+    const container = range.commonAncestorContainer
+    const el = container.nodeType === Node.ELEMENT_NODE ? container as Element : container.parentElement
+    if (el) {
+      setPickedSelector(uniqueSelector(el))
+      setSuggestedTags(suggestTags({ root: el }, isOverlayHost))
+    }
+  }
+
+  // Aborts captures still waiting on the background, e.g. a full page capture when Esc is pressed
+  function cancelRequests() {
+    abortRef.current.abort()
+    abortRef.current = new AbortController()
+  }
+
   function resetAll() {
+    cancelRequests()
+    setPendingUploadId(null)
     setMode(null)
+    setIsAnnotating(false)
+    setCaptureMode(null)
+    setShowSavedToLibrary(false)
     setRect(null)
     setPreview(null)
+    setPreviewScale(null)
     setDomPreview(null)
+    setTextPreview(null)
+    setSourceUrl(null)
     setDesc("")
     setTags("")
+    setAnnotations([])
+    resetRedactions()
+    resetAssetEmbedding()
+    resetSelection()
+    setFrames([])
+    setStates([])
+    setDesignTokens(null)
+    setSuggestedTags([])
+    resetRecording()
     setHoverEl(null)
     setPickedEl(null)
-    setUploadedUuid(null)
+    setPickedSelector(null)
+    setHoverLocked(false)
+    setUploadedUrl(null)
     setShowUploadSuccess(false)
     setIsCapturing(false)
+    setFullPageProgress(null)
 
     // Clear any pending timeout and interval
     if (uploadSuccessTimeoutRef.current) {
@@ -544,6 +1815,35 @@ const Overlay = () => {
 
 export default Overlay
 
+function emptyBatchItem(mode: Mode): BatchItem {
+  return {
+    id: crypto.randomUUID(),
+    mode,
+    description: "",
+    tags: "",
+    imageDataUrl: null,
+    imageScale: null,
+    domHtml: null,
+    text: null,
+    sourceUrl: null,
+    selector: null,
+    rect: null,
+    annotations: [],
+    assetReport: null,
+    frames: [],
+    states: [],
+    designTokens: null,
+    suggestedTags: [],
+    recording: null,
+    redactionCount: 0
+  }
+}
+
+// Plasmo mounts the overlay in a <plasmo-csui> shadow host
+function isOverlayHost(el: Element) {
+  return el.localName === "plasmo-csui"
+}
+
 function downloadDataUrl(dataUrl: string, filename: string) {
   const a = document.createElement("a")
   a.href = dataUrl
@@ -551,157 +1851,489 @@ function downloadDataUrl(dataUrl: string, filename: string) {
   a.click()
 }
 
-// Serialize element with inline computed styles (basic). Note: cross-origin images/CSS won't be embedded.
-function serializeWithStyles(rootEl: HTMLElement): string {
-  const clone = rootEl.cloneNode(true) as HTMLElement
-  const walker = document.createTreeWalker(rootEl, NodeFilter.SHOW_ELEMENT, null)
-  const clones: HTMLElement[] = [clone]
-
-  // map of original -> clone path sync
-  const stack: Array<{ orig: HTMLElement, copy: HTMLElement }> = [{ orig: rootEl, copy: clone }]
-  while (stack.length) {
-    const { orig, copy } = stack.pop()!
-    inlineComputed(orig, copy)
-    for (let i = 0; i < orig.children.length; i++) {
-      const oChild = orig.children[i] as HTMLElement
-      const cChild = copy.children[i] as HTMLElement
-      stack.push({ orig: oChild, copy: cChild })
-    }
-  }
-
-  const wrapper = document.createElement("div")
-  const styleReset = document.createElement("style")
-  styleReset.textContent = `*{box-sizing:border-box!important;}`
-  wrapper.appendChild(styleReset)
-  wrapper.appendChild(clone)
-  return wrapper.innerHTML
+/**
+ * Cuts `rect` (client coordinates) out of a viewport screenshot, at the chosen output
+ * density. `geometry` is the viewport the screenshot was taken of.
+ */
+async function cropToRect(dataUrl: string, rect: Rect, geometry: ViewportGeometry, density: OutputDensity): Promise<{ dataUrl: string, pixelRatio: number }> {
+  const img = await loadImage(dataUrl)
+  console.log("🖼️ Image loaded, dimensions:", img.width, "x", img.height)
+  console.log("🖼️ Viewport geometry:", geometry)
+
+  const nativeRatio = screenshotPixelRatio(img.width, geometry)
+  const pixelRatio = outputPixelRatio(density, nativeRatio)
+  console.log("📏 Scale factor:", nativeRatio, "→", pixelRatio)
+
+  // The screenshot starts at the visual viewport, which pinch zoom moves inside the window
+  const sx = Math.round((rect.x - geometry.offsetX) * nativeRatio)
+  const sy = Math.round((rect.y - geometry.offsetY) * nativeRatio)
+  const sw = Math.round(rect.w * nativeRatio)
+  const sh = Math.round(rect.h * nativeRatio)
+
+  console.log("✂️ Crop coordinates:", { sx, sy, sw, sh })
+
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(rect.w * pixelRatio))
+  canvas.height = Math.max(1, Math.round(rect.h * pixelRatio))
+  const ctx = canvas.getContext("2d")!
+  ctx.imageSmoothingQuality = "high"
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height)
+  return { dataUrl: canvas.toDataURL("image/png"), pixelRatio }
 }
 
-function inlineComputed(src: HTMLElement, dst: HTMLElement) {
-  const cs = window.getComputedStyle(src)
-  const styleProps = [
-    "position", "display", "flex", "flexDirection", "justifyContent", "alignItems", "gap", "width", "height",
-    "minWidth", "minHeight", "maxWidth", "maxHeight", "padding", "paddingTop", "paddingRight", "paddingBottom", "paddingLeft",
-    "margin", "marginTop", "marginRight", "marginBottom", "marginLeft", "border", "borderRadius", "background", "backgroundColor",
-    "backgroundImage", "backgroundSize", "backgroundPosition", "backgroundRepeat", "color", "font", "fontFamily", "fontSize",
-    "fontWeight", "lineHeight", "letterSpacing", "textAlign", "textDecoration", "boxShadow", "overflow", "overflowX", "overflowY",
-    "objectFit", "objectPosition", "opacity", "transform", "transition", "whiteSpace"
-  ]
-  const styleStr = styleProps
-    .map((p) => {
-      const v = (cs as any)[p]
-      return v ? `${camelToKebab(p)}:${v};` : ""
-    })
-    .join("")
-  dst.setAttribute("style", (dst.getAttribute("style") ?? "") + styleStr)
-
-  // Resolve src/href to absolute URLs for images/links
-  if (dst instanceof HTMLImageElement && src instanceof HTMLImageElement) {
-    if (src.src) dst.src = src.src
-  }
-  if (dst instanceof HTMLAnchorElement && src instanceof HTMLAnchorElement) {
-    if (src.href) dst.href = src.href
-  }
+const HANDLE_CLASSES: Record<Exclude<LassoHandle, "move">, string> = {
+  n: "-top-1.5 left-1/2 -translate-x-1/2 cursor-ns-resize",
+  ne: "-top-1.5 -right-1.5 cursor-nesw-resize",
+  e: "top-1/2 -right-1.5 -translate-y-1/2 cursor-ew-resize",
+  se: "-bottom-1.5 -right-1.5 cursor-nwse-resize",
+  s: "-bottom-1.5 left-1/2 -translate-x-1/2 cursor-ns-resize",
+  sw: "-bottom-1.5 -left-1.5 cursor-nesw-resize",
+  w: "top-1/2 -left-1.5 -translate-y-1/2 cursor-ew-resize",
+  nw: "-top-1.5 -left-1.5 cursor-nwse-resize"
 }
 
-function camelToKebab(s: string) {
-  return s.replace(/[A-Z]/g, (m) => "-" + m.toLowerCase())
-}
+// A drawn lasso before it is captured: dragging inside moves it, the handles resize it.
+// The mouse handlers find the handle through `data-lasso-handle`, see lib/lasso.ts
+const LassoFrame = ({ rect }: { rect: Rect }) => (
+  <div
+    data-lasso-handle="move"
+    className="fixed border-2 border-blue-600 cursor-move bg-blue-500/10"
+    style={{ left: rect.x, top: rect.y, width: rect.w, height: rect.h }}
+  >
+    {RESIZE_HANDLES.map((handle) => (
+      <div key={handle} data-lasso-handle={handle} className={`absolute w-3 h-3 bg-white border-2 border-blue-600 rounded-sm ${HANDLE_CLASSES[handle]}`} />
+    ))}
+  </div>
+)
+
+// Below the lasso, or at the bottom of the viewport when the lasso reaches past it
+const LassoBar = ({ barRef, rect, onCapture, onDiscard }: {
+  barRef: React.RefObject<HTMLDivElement>
+  rect: Rect
+  onCapture: () => void
+  onDiscard: () => void
+}) => (
+  <div
+    ref={barRef}
+    className="fixed flex items-center gap-2 px-2.5 py-1.5 text-xs font-sans bg-black/80 text-white rounded-md cursor-default z-hint"
+    style={{
+      left: Math.min(Math.max(8, rect.x), window.innerWidth - 280),
+      top: Math.min(Math.max(8, rect.y + rect.h + 8), window.innerHeight - 44)
+    }}
+  >
+    <span className="opacity-80">{Math.round(rect.w)}×{Math.round(rect.h)}</span>
+    <button className="px-2 py-1 text-xs text-white bg-blue-600 border-0 rounded-md cursor-pointer" onClick={onCapture}>
+      Capture (Enter)
+    </button>
+    <button className="px-2 py-1 text-xs text-white border-0 rounded-md cursor-pointer bg-white/10 hover:bg-white/20" onClick={onDiscard}>
+      Discard
+    </button>
+  </div>
+)
 
-const OutlineBox = ({ el }: { el: HTMLElement }) => {
-  const rect = el.getBoundingClientRect()
+const OutlineBox = ({ el, showLabel = false, selected = false }: { el: HTMLElement, showLabel?: boolean, selected?: boolean }) => {
+  const rect = rectInTopWindow(el)
   return (
     <div
-      className="fixed border-2 border-blue-600 pointer-events-none bg-blue-500/8 z-overlay"
+      className={`fixed border-2 pointer-events-none z-overlay ${selected ? "border-green-500 bg-green-500/10" : "border-blue-600 bg-blue-500/8"}`}
       style={{
         left: rect.left + "px",
         top: rect.top + "px",
         width: rect.width + "px",
         height: rect.height + "px"
       }}
-    />
+    >
+      {showLabel && (
+        <div className={`absolute left-0 px-1.5 py-0.5 text-xs font-sans whitespace-nowrap bg-blue-600 text-white rounded ${rect.top > 24 ? "-top-6" : "top-0"}`}>
+          {describeElement(el)} <span className="opacity-80">{Math.round(rect.width)}×{Math.round(rect.height)}</span>
+        </div>
+      )}
+    </div>
   )
 }
 
-const FloatingHint = () => (
-  <div className="fixed bottom-3 left-3 px-2.5 py-1.5 text-xs leading-tight font-sans bg-black/70 text-white rounded-md z-hint pointer-events-none">
-    GrebRef: Press <b>Ctrl+S</b> (image), <b>Ctrl+D</b> (DOM) or <b>Ctrl+F</b> (full page).
-  </div>
-)
-
-// Utility functions for enhanced context detection
-function detectFramework(): string | null {
-  // Check for React.js
-  if (!!(window as any).React ||
-    !!(window as any).__REACT_DEVTOOLS_GLOBAL_HOOK__ ||
-    !!document.querySelector('[data-reactroot], [data-reactid]')) {
-    return 'React.js'
-  }
+// Ancestor chain of the outlined element, click a crumb to move the outline there
+const DomBreadcrumb = ({ el, onSelect }: { el: Element, onSelect: (el: Element) => void }) => {
+  const chain = ancestorChain(el)
+  const visible = chain.slice(-6)
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-1">
+        {visible.length < chain.length && <span className="text-gray-400">…</span>}
+        {visible.map((node, i) => (
+          <React.Fragment key={i}>
+            {i > 0 && <span className="text-gray-500">›</span>}
+            <button
+              className={`px-1 rounded border-0 text-xs font-mono cursor-pointer ${node === el ? "bg-blue-600 text-white" : "bg-transparent text-gray-300 hover:bg-white/10"}`}
+              onClick={() => onSelect(node)}
+            >
+              {describeElement(node)}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+      <code className="text-gray-400 truncate" title="Selector sent with the upload">{uniqueSelector(el)}</code>
+    </>
+  )
+}
 
-  // Check for Next.js
-  if (!!document.querySelector('script[id=__NEXT_DATA__]')) {
-    return 'Next.js'
-  }
+// The bindings as they are right now: chrome.commands, then the in-page fallback if it is on for this site
+const FloatingHint = ({ commandBindings, inPageBindings }: {
+  commandBindings: Record<CaptureCommand, string> | null
+  inPageBindings: Record<CaptureCommand, string> | null
+}) => {
+  const bound = CAPTURE_COMMANDS
+    .map((command) => ({ command, keys: [commandBindings?.[command], inPageBindings?.[command]].filter(Boolean) }))
+    .filter(({ keys }) => keys.length)
+  return (
+    <div className="fixed bottom-3 left-3 px-2.5 py-1.5 text-xs leading-tight font-sans bg-black/70 text-white rounded-md z-hint pointer-events-none">
+      GrebRef:{" "}
+      {bound.length
+        ? bound.map(({ command, keys }, i) => (
+          <React.Fragment key={command}>
+            {i > 0 && ", "}
+            <b>{keys.join(" / ")}</b> ({COMMAND_LABELS[command]})
+          </React.Fragment>
+        ))
+        : "no shortcuts set, use the toolbar popup or chrome://extensions/shortcuts"}
+    </div>
+  )
+}
 
-  // Check for Gatsby.js
-  if (!!document.querySelector('[id=___gatsby]')) {
-    return 'Gatsby.js'
-  }
+const RedactionList = ({ items, overrides, onToggle }: {
+  items: RedactionItem[]
+  overrides: Set<string>
+  onToggle: (key: string) => void
+}) => {
+  if (!items.length) return null
+  return (
+    <div className="flex flex-col gap-1 p-2 overflow-y-auto text-xs bg-gray-800 border border-gray-600 rounded-lg max-h-32">
+      <div className="font-semibold text-gray-300">Redacted ({items.length - items.filter((i) => overrides.has(i.key)).length}/{items.length})</div>
+      {items.map((item) => (
+        <label key={item.key} className="flex items-center gap-2 text-gray-400 cursor-pointer" title="Uncheck to keep this in the capture">
+          <input type="checkbox" checked={!overrides.has(item.key)} onChange={() => onToggle(item.key)} />
+          <span className="shrink-0 text-gray-500">{item.kind}</span>
+          <span className="truncate">{item.label}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
 
-  // Check for Angular.js (Angular 1.x)
-  if (!!(window as any).angular ||
-    !!document.querySelector('.ng-binding, [ng-app], [data-ng-app], [ng-controller], [data-ng-controller], [ng-repeat], [data-ng-repeat]') ||
-    !!document.querySelector('script[src*="angular.js"], script[src*="angular.min.js"]')) {
-    return 'Angular.js'
-  }
+/**
+ * Comma-separated tags field with the suggested tags as toggleable chips, and completions
+ * from earlier clips for the tag being typed.
+ */
+const TagInput = ({ value, suggestions, knownTags, className, onChange }: {
+  value: string
+  suggestions: string[]
+  knownTags: string[]
+  className: string
+  onChange: (value: string) => void
+}) => {
+  const chosen = parseTags(value)
+  const typing = value.trimEnd().endsWith(",") ? "" : value.split(",").pop()!.trim().toLowerCase()
+  const completions = typing
+    ? knownTags.filter((tag) => tag.toLowerCase().startsWith(typing) && tag.toLowerCase() !== typing && !chosen.includes(tag)).slice(0, 5)
+    : []
+  const toggle = (tag: string) => onChange((chosen.includes(tag) ? chosen.filter((t) => t !== tag) : [...chosen, tag]).join(", "))
+  const complete = (tag: string) => onChange([...chosen.slice(0, -1), tag].join(", ") + ", ")
+  const chipClass = "px-1.5 py-0.5 rounded-full border text-xs font-sans cursor-pointer"
+  return (
+    <div className="flex flex-col gap-1">
+      <input className={className} placeholder="Tags, comma-separated" value={value} onChange={(e) => onChange(e.target.value)} />
+      {(completions.length > 0 || suggestions.length > 0) && (
+        <div className="flex flex-wrap gap-1">
+          {completions.map((tag) => (
+            <button key={`complete-${tag}`} className={`${chipClass} border-dashed border-gray-500 bg-transparent text-gray-300`} onClick={() => complete(tag)}>{tag}</button>
+          ))}
+          {suggestions.map((tag) => (
+            <button
+              key={tag}
+              className={`${chipClass} ${chosen.includes(tag) ? "border-blue-500 bg-blue-600 text-white" : "border-gray-600 bg-transparent text-gray-400"}`}
+              title={chosen.includes(tag) ? "Remove tag" : "Add suggested tag"}
+              onClick={() => toggle(tag)}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
 
-  // Check for Angular 2+
-  if (!!(window as any).getAllAngularRootElements ||
-    !!(window as any).ng?.coreTokens?.NgZone) {
-    return 'Angular 2+'
-  }
+// Multi-select preview: every capture gets its own description and tags, saved or uploaded in one go
+const BatchGallery = ({ items, knownTags, busy, onChange, onRemove, onUpload, onSave, onClose }: {
+  items: BatchItem[]
+  knownTags: string[]
+  busy: boolean
+  onChange: (id: string, patch: Partial<BatchItem>) => void
+  onRemove: (id: string) => void
+  onUpload: () => void
+  onSave: () => void
+  onClose: () => void
+}) => {
+  const inputClass = "w-full px-2.5 py-1.5 rounded-lg border border-gray-600 bg-gray-900 text-gray-200 text-xs font-sans"
+  return (
+    <div className="fixed right-5 bottom-5 z-overlay flex flex-col gap-3 p-3 bg-gray-900 text-gray-200 rounded-xl shadow-2xl w-[min(90vw,720px)] max-h-[80vh]">
+      <div className="text-sm font-semibold">{items.length} captures</div>
+      <div className="grid grid-cols-2 gap-3 overflow-y-auto">
+        {items.map((item) => (
+          <div key={item.id} className="flex flex-col gap-1.5 p-2 bg-gray-800 rounded-lg">
+            {item.imageDataUrl
+              ? <img src={item.imageDataUrl} alt="GrebRef" className="block object-contain w-full h-32 bg-black rounded-md" />
+              : <iframe sandbox="" srcDoc={item.domHtml ?? ""} title={item.selector ?? "DOM snippet"} className="w-full h-32 bg-white border-0 rounded-md" />}
+            {item.selector && <code className="text-xs text-gray-400 truncate" title={item.selector}>{item.selector}</code>}
+            {item.redactionCount > 0 && <div className="text-xs text-gray-400">{item.redactionCount} redacted</div>}
+            <input className={inputClass} placeholder="Description (optional)" value={item.description} onChange={(e) => onChange(item.id, { description: e.target.value })} />
+            <TagInput className={inputClass} value={item.tags} suggestions={item.suggestedTags} knownTags={knownTags} onChange={(value) => onChange(item.id, { tags: value })} />
+            <button className="px-2 py-1 text-xs text-gray-300 bg-transparent border border-gray-600 rounded-md cursor-pointer" onClick={() => onRemove(item.id)}>Remove</button>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-row gap-2">
+        <button className="flex-1 px-2.5 py-2 border-0 rounded-lg bg-blue-600 text-white text-xs font-sans cursor-pointer disabled:opacity-40" disabled={busy} onClick={onUpload}>Upload all ({items.length})</button>
+        <button className="flex-1 px-2.5 py-2 rounded-lg border border-gray-600 bg-transparent text-gray-300 text-xs font-sans cursor-pointer disabled:opacity-40" disabled={busy} onClick={onSave}>Save all to library</button>
+        <button className="px-2.5 py-2 rounded-lg border border-gray-600 bg-transparent text-gray-300 text-xs font-sans cursor-pointer" onClick={onClose}>Close</button>
+      </div>
+    </div>
+  )
+}
 
-  // Check for other frameworks
-  if (!!(window as any).Backbone) return 'Backbone.js'
-  if (!!(window as any).Ember) return 'Ember.js'
-  if (!!(window as any).Vue) return 'Vue.js'
-  if (!!(window as any).Meteor) return 'Meteor.js'
-  if (!!(window as any).Zepto) return 'Zepto.js'
-  if (!!(window as any).jQuery) return 'jQuery.js'
+// Shown while filming. The outline sits just outside the region and the pill in a corner
+// away from it, so neither ends up in the clip.
+const RecordingIndicator = ({ area, elapsedMs, onStop }: { area: Rect, elapsedMs: number, onStop: () => void }) => {
+  const pillAtTop = area.y + area.h > window.innerHeight - 56
+  return (
+    <>
+      <div className="fixed border-2 border-red-500 border-dashed pointer-events-none z-overlay" style={{ left: area.x - 4, top: area.y - 4, width: area.w + 8, height: area.h + 8 }} />
+      <div className={`fixed left-3 ${pillAtTop ? "top-3" : "bottom-3"} z-[2147483647] flex items-center gap-2 px-2.5 py-1.5 text-xs font-sans bg-black/80 text-white rounded-md`}>
+        <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
+        Recording {(elapsedMs / 1000).toFixed(1)}s / {MAX_RECORDING_MS / 1000}s
+        <button className="px-2 py-0.5 text-xs text-white bg-red-600 border-0 rounded cursor-pointer" onClick={onStop}>Stop</button>
+      </div>
+    </>
+  )
+}
 
-  return null
+// The video loops inside the trim range; conversion to GIF/WebP happens on save
+const RecordingEditor = ({ recording, trim, format, busy, onTrim, onFormat }: {
+  recording: Recording
+  trim: Trim
+  format: RecordingFormat
+  busy: boolean
+  onTrim: (trim: Trim) => void
+  onFormat: (format: RecordingFormat) => void
+}) => {
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+  return (
+    <div className="flex flex-col gap-1.5 w-80">
+      <video
+        src={recording.dataUrl}
+        autoPlay
+        loop
+        muted
+        playsInline
+        className="block object-contain bg-black rounded-lg max-w-80 max-h-60"
+        onTimeUpdate={(e) => {
+          const ms = e.currentTarget.currentTime * 1000
+          if (ms < trim.startMs || ms >= trim.endMs) e.currentTarget.currentTime = trim.startMs / 1000
+        }}
+      />
+      <label className="flex items-center gap-2 text-xs text-gray-400">
+        Start
+        <input type="range" className="flex-1" min={0} max={recording.durationMs} step={100} value={trim.startMs} onChange={(e) => onTrim({ ...trim, startMs: Math.min(Number(e.target.value), trim.endMs - 100) })} />
+        <span className="w-10 text-right">{seconds(trim.startMs)}</span>
+      </label>
+      <label className="flex items-center gap-2 text-xs text-gray-400">
+        End
+        <input type="range" className="flex-1" min={0} max={recording.durationMs} step={100} value={trim.endMs} onChange={(e) => onTrim({ ...trim, endMs: Math.max(Number(e.target.value), trim.startMs + 100) })} />
+        <span className="w-10 text-right">{seconds(trim.endMs)}</span>
+      </label>
+      <select className="w-full px-2.5 py-1.5 rounded-lg border border-gray-600 bg-gray-800 text-gray-200 text-xs font-sans" value={format} onChange={(e) => onFormat(e.target.value as RecordingFormat)}>
+        <option value="webm">WebM video</option>
+        <option value="gif">GIF</option>
+        <option value="webp">Animated WebP</option>
+      </select>
+      {busy && <div className="text-xs text-gray-400">Converting…</div>}
+    </div>
+  )
 }
 
-function detectCSSFramework(): string | null {
-  // Check for Tailwind
-  if (document.querySelector('[class*="bg-"]') || document.querySelector('[class*="text-"]')) return 'Tailwind'
+// Opens upwards, it sits at the bottom of the preview panel
+const ExportMenu = ({ actions, fileLabel, disabled, onExport }: {
+  actions: ExportAction[]
+  fileLabel: string
+  disabled: boolean
+  onExport: (action: ExportAction) => void
+}) => {
+  const [open, setOpen] = useState(false)
+  const labels: Record<ExportAction, string> = {
+    "copy-image": "Copy image",
+    "copy-html": "Copy HTML",
+    "copy-text": "Copy text",
+    "download-file": fileLabel,
+    "download-zip": "Download ZIP bundle",
+    "card-markdown": "Reference card (Markdown)",
+    "card-html": "Reference card (HTML)"
+  }
+  return (
+    <div className="relative flex flex-1">
+      <button className="px-2.5 whitespace-nowrap flex-1 py-2 border-0 rounded-lg bg-blue-600 text-white text-xs font-sans cursor-pointer disabled:opacity-40" disabled={disabled} onClick={() => setOpen(!open)}>Export ▾</button>
+      {open && (
+        <div className="absolute left-0 bottom-full mb-1 flex flex-col py-1 min-w-48 bg-gray-800 border border-gray-600 rounded-lg shadow-2xl">
+          {actions.map((action) => (
+            <button
+              key={action}
+              className="px-3 py-1.5 text-left text-xs font-sans text-gray-200 bg-transparent border-0 cursor-pointer hover:bg-gray-700"
+              onClick={() => { setOpen(false); onExport(action) }}
+            >
+              {labels[action]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
 
-  // Check for Bootstrap
-  if (document.querySelector('.container') || document.querySelector('.row')) return 'Bootstrap'
+// Thumbnails of the breakpoint or state captures, with the button that (re-)takes them
+const FrameStrip = ({ frames, action, title, onCapture }: {
+  frames: Array<{ key: string, label: string, dataUrl: string | null }>
+  action: string
+  title: string
+  onCapture: () => void
+}) => (
+  <div className="flex flex-col gap-1.5 p-2 text-xs bg-gray-800 border border-gray-600 rounded-lg">
+    {frames.length > 0 && (
+      <div className="flex gap-1.5 overflow-x-auto">
+        {frames.map((frame) => (
+          <figure key={frame.key} className="flex flex-col items-center gap-0.5 m-0 shrink-0">
+            {frame.dataUrl
+              ? <img src={frame.dataUrl} alt={frame.label} className="block object-contain w-14 h-14 bg-black rounded" />
+              : <div className="flex items-center justify-center w-14 h-14 text-gray-500 bg-gray-900 rounded" title="Not rendered">–</div>}
+            <figcaption className="text-gray-400">{frame.label}</figcaption>
+          </figure>
+        ))}
+      </div>
+    )}
+    <button className="px-2 py-1 text-xs text-gray-300 bg-transparent border border-gray-600 rounded-md cursor-pointer" title={title} onClick={onCapture}>
+      {action}
+    </button>
+  </div>
+)
 
-  // Check for Material-UI
-  if (document.querySelector('[class*="Mui"]')) return 'Material-UI'
+const AssetReportLine = ({ report, isEmbedding }: { report: AssetReport | null, isEmbedding: boolean }) => {
+  if (isEmbedding) return <div className="text-xs text-gray-400">Embedding images and fonts…</div>
+  if (!report) return null
+  return (
+    <div className="text-xs text-gray-400">
+      Embedded {report.inlined} assets ({Math.round(report.bytes / 1024)} KB)
+      {report.failed.length > 0 && (
+        <details>
+          <summary className="text-yellow-400 cursor-pointer">{report.failed.length} could not be embedded</summary>
+          <div className="overflow-y-auto max-h-24">
+            {report.failed.map(({ url, reason }) => (
+              <div key={url} className="truncate" title={url}>{reason}: {url}</div>
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  )
+}
 
-  return null
+// Palette swatches and the type scale of the capture, the full set goes along in `context.design`
+const DesignTokenSummary = ({ tokens }: { tokens: DesignTokens }) => {
+  if (!tokens.palette.length && !tokens.typeScale.length) return null
+  return (
+    <details className="text-xs text-gray-400">
+      <summary className="flex items-center gap-1 cursor-pointer">
+        {tokens.palette.slice(0, 12).map((color) => (
+          <span
+            key={color.hex}
+            className="inline-block w-3.5 h-3.5 border rounded-sm border-white/20"
+            style={{ background: color.hex }}
+            title={[color.hex, color.roles.join(", "), ...color.variables].join(" · ")}
+          />
+        ))}
+        {tokens.palette.length > 12 && <span>+{tokens.palette.length - 12}</span>}
+      </summary>
+      <div className="flex flex-col gap-0.5 mt-1">
+        {tokens.typeScale.length > 0 && (
+          <div className="truncate" title="Font size / weights, largest first">
+            Type {tokens.typeScale.map((step) => `${step.fontSize}/${step.fontWeights.join("·")}`).join("  ")}
+            {tokens.typeScaleRatio && ` (×${tokens.typeScaleRatio})`}
+          </div>
+        )}
+        {tokens.fontFamilies.length > 0 && <div className="truncate">Fonts {tokens.fontFamilies.map((f) => f.value).join(", ")}</div>}
+        {tokens.spacing.length > 0 && (
+          <div className="truncate">
+            Spacing {tokens.spacing.slice(0, 6).map((s) => s.value).join(" ")}{tokens.spacingUnit && ` (${tokens.spacingUnit}px grid)`}
+          </div>
+        )}
+        {tokens.radii.length > 0 && <div className="truncate">Radii {tokens.radii.map((r) => r.value).join(", ")}</div>}
+        {tokens.shadows.length > 0 && <div>{tokens.shadows.length} shadow{tokens.shadows.length > 1 ? "s" : ""}</div>}
+        <div>{Object.keys(tokens.customProperties).length} custom properties from {tokens.elementCount} elements</div>
+      </div>
+    </details>
+  )
 }
 
-function extractCSSVariables(element: HTMLElement): Record<string, string> {
-  const variables: Record<string, string> = {}
-  const computedStyle = getComputedStyle(element)
+const megabytes = (bytes: number) => (bytes / 1048576).toFixed(1)
 
-  // Extract common CSS custom properties
-  const commonVars = [
-    '--primary-color', '--secondary-color', '--accent-color',
-    '--text-color', '--background-color', '--border-color',
-    '--font-family', '--font-size', '--spacing'
-  ]
+function uploadProgressText(upload: UploadSummary) {
+  if (upload.status === "queued") return "Waiting to upload…"
+  if (!upload.progress) return "Uploading…"
+  if (!upload.progress.sent) return `Uploading ${megabytes(upload.progress.total)} MB…`
+  return `Uploading… ${megabytes(upload.progress.sent)} of ${megabytes(upload.progress.total)} MB`
+}
 
-  commonVars.forEach(varName => {
-    const value = computedStyle.getPropertyValue(varName)
-    if (value) {
-      variables[varName] = value.trim()
-    }
-  })
+// Chunks move the bar, a request still in flight pulses since fetch can't report its own progress
+const UploadProgressBar = ({ upload }: { upload: UploadSummary }) => {
+  const { sent, total } = upload.progress ?? { sent: 0, total: 0 }
+  const inFlight = upload.status === "uploading" && (!total || sent < total)
+  return (
+    <div className="h-1 overflow-hidden bg-gray-700 rounded-full">
+      <div className="relative h-full bg-blue-500" style={{ width: `${total ? Math.round(sent / total * 100) : 0}%` }}></div>
+      {inFlight && <div className="h-full -mt-1 bg-blue-500/50 animate-pulse"></div>}
+    </div>
+  )
+}
 
-  return variables
+const UploadQueueTray = ({ uploads, onRetry, onDiscard, onSignIn }: {
+  uploads: UploadSummary[]
+  onRetry: (id: string) => void
+  onDiscard: (id: string) => void
+  onSignIn: (profileId: string) => void
+}) => {
+  if (!uploads.length) return null
+  return (
+    <div className="fixed bottom-12 left-3 z-overlay flex flex-col gap-1.5 p-2 w-72 bg-gray-900 text-gray-200 rounded-lg shadow-2xl">
+      <div className="text-xs font-semibold text-gray-300">Uploads</div>
+      {uploads.map((upload) => (
+        <div key={upload.id} className="flex items-center gap-2 text-xs font-sans">
+          <div className={`w-2 h-2 rounded-full shrink-0 ${upload.status === "failed" ? "bg-red-500" : upload.status === "uploading" ? "bg-blue-500" : "bg-yellow-500"}`}></div>
+          <div className="flex-1 min-w-0">
+            <div className="truncate">{upload.title}</div>
+            <div className="text-gray-400 truncate" title={upload.lastError ?? undefined}>
+              {upload.status === "uploading" && uploadProgressText(upload)}
+              {upload.status === "queued" && (upload.attempts ? `Queued, retry ${upload.attempts + 1}` : "Queued")}
+              {upload.status === "failed" && `Failed: ${upload.lastError ?? "unknown"}`}
+            </div>
+            {upload.status !== "failed" && <div className="mt-1"><UploadProgressBar upload={upload} /></div>}
+          </div>
+          {upload.status === "failed" && (
+            <>
+              {upload.authRequired
+                ? <button className="px-2 py-1 border-0 rounded-md bg-blue-600 text-white text-xs font-sans cursor-pointer" onClick={() => onSignIn(upload.profileId)}>Sign in</button>
+                : <button className="px-2 py-1 border-0 rounded-md bg-blue-600 text-white text-xs font-sans cursor-pointer" onClick={() => onRetry(upload.id)}>Retry</button>}
+              <button className="px-2 py-1 rounded-md border border-gray-600 text-gray-300 text-xs font-sans cursor-pointer" onClick={() => onDiscard(upload.id)}>Discard</button>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  )
 }
\ No newline at end of file
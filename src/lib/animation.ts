@@ -0,0 +1,267 @@
+// src/lib/animation.ts
+// Turns a recording into what gets saved: the WebM trimmed to the chosen range, or a GIF
+// or animated WebP made from it. Runs in the content script, a <video> and a canvas are
+// all it needs. GIFs use a fixed 6×7×6 colour cube with ordered dithering rather than a
+// per-frame palette, which keeps the encoder small and is plenty for UI recordings.
+
+import { blobToDataUrl } from "~lib/data-url"
+
+export type RecordingFormat = "webm" | "gif" | "webp"
+
+export type Trim = { startMs: number; endMs: number }
+
+const ANIMATION_FPS = 10
+const MAX_ANIMATION_WIDTH = 640 // GIF and WebP get big fast, wider recordings are scaled down
+
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5]
+
+export async function exportRecording(
+  recording: { dataUrl: string; durationMs: number },
+  trim: Trim,
+  format: RecordingFormat
+): Promise<string> {
+  const untrimmed = trim.startMs <= 0 && trim.endMs >= recording.durationMs
+  if (format === "webm" && untrimmed) return recording.dataUrl
+
+  const video = await loadVideo(recording.dataUrl)
+  if (format === "webm") return trimWebm(video, trim)
+  return format === "gif" ? encodeGif(video, trim) : encodeAnimatedWebp(video, trim)
+}
+
+// --- Video helpers ---
+
+async function loadVideo(src: string): Promise<HTMLVideoElement> {
+  const video = document.createElement("video")
+  video.muted = true
+  video.src = src
+  await once(video, "loadedmetadata")
+  // MediaRecorder doesn't write a duration, seeking past the end makes Chrome work it out
+  if (video.duration === Infinity) {
+    video.currentTime = 1e101
+    await once(video, "timeupdate")
+  }
+  return video
+}
+
+function once(target: EventTarget, type: string) {
+  return new Promise<void>((resolve) => target.addEventListener(type, () => resolve(), { once: true }))
+}
+
+async function seekTo(video: HTMLVideoElement, ms: number) {
+  video.currentTime = ms / 1000
+  await once(video, "seeked")
+}
+
+// Re-records the range in real time, WebM can't be cut without a muxer
+async function trimWebm(video: HTMLVideoElement, trim: Trim): Promise<string> {
+  await seekTo(video, trim.startMs)
+  const recorder = new MediaRecorder((video as HTMLVideoElement & { captureStream(): MediaStream }).captureStream(), { mimeType: "video/webm" })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data)
+  }
+  const stopped = once(recorder, "stop")
+
+  recorder.start()
+  await video.play()
+  await new Promise<void>((resolve) => {
+    const check = () => (video.ended || video.currentTime * 1000 >= trim.endMs ? resolve() : requestAnimationFrame(check))
+    check()
+  })
+  video.pause()
+  recorder.stop()
+  await stopped
+  return blobToDataUrl(new Blob(chunks, { type: "video/webm" }))
+}
+
+// Seeks through the range at ANIMATION_FPS and hands every frame over drawn on `canvas`
+async function forEachFrame(video: HTMLVideoElement, trim: Trim, onFrame: (canvas: HTMLCanvasElement) => Promise<void> | void) {
+  const scale = Math.min(1, MAX_ANIMATION_WIDTH / video.videoWidth)
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale))
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale))
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!
+  for (let ms = trim.startMs; ms < trim.endMs; ms += 1000 / ANIMATION_FPS) {
+    await seekTo(video, ms)
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+    await onFrame(canvas)
+  }
+}
+
+// --- GIF ---
+
+async function encodeGif(video: HTMLVideoElement, trim: Trim): Promise<string> {
+  const bytes: number[] = []
+  const delay = Math.round(100 / ANIMATION_FPS) // hundredths of a second
+  let header = false
+
+  await forEachFrame(video, trim, (canvas) => {
+    const { width, height } = canvas
+    if (!header) {
+      writeGifHeader(bytes, width, height)
+      header = true
+    }
+    const pixels = canvas.getContext("2d")!.getImageData(0, 0, width, height).data
+    const indices = new Uint8Array(width * height)
+    for (let i = 0; i < indices.length; i++) {
+      const threshold = BAYER_4X4[(Math.floor(i / width) % 4) * 4 + (i % width) % 4] / 16 - 0.5
+      const r = quantize(pixels[i * 4], 6, threshold)
+      const g = quantize(pixels[i * 4 + 1], 7, threshold)
+      const b = quantize(pixels[i * 4 + 2], 6, threshold)
+      indices[i] = r * 42 + g * 6 + b
+    }
+    // Graphic control extension (delay, no disposal) and a full-size image descriptor
+    bytes.push(0x21, 0xf9, 0x04, 0x04, delay & 0xff, delay >> 8, 0x00, 0x00)
+    bytes.push(0x2c, 0, 0, 0, 0, width & 0xff, width >> 8, height & 0xff, height >> 8, 0x00)
+    bytes.push(8)
+    const data = lzwEncode(indices, 8)
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.slice(i, i + 255)
+      bytes.push(block.length, ...block)
+    }
+    bytes.push(0x00)
+  })
+  if (!header) throw new Error("Nothing to export in the selected range")
+  bytes.push(0x3b)
+  return blobToDataUrl(new Blob([new Uint8Array(bytes)], { type: "image/gif" }))
+}
+
+function quantize(value: number, levels: number, threshold: number) {
+  const step = 255 / (levels - 1)
+  return Math.min(levels - 1, Math.max(0, Math.round(value / step + threshold)))
+}
+
+function writeGifHeader(bytes: number[], width: number, height: number) {
+  bytes.push(...Array.from("GIF89a", (c) => c.charCodeAt(0)))
+  // Global colour table of 256 entries, the first 252 are the colour cube
+  bytes.push(width & 0xff, width >> 8, height & 0xff, height >> 8, 0xf7, 0x00, 0x00)
+  for (let i = 0; i < 256; i++) {
+    if (i >= 252) {
+      bytes.push(0, 0, 0)
+      continue
+    }
+    bytes.push(Math.round((Math.floor(i / 42) * 255) / 5), Math.round(((Math.floor(i / 6) % 7) * 255) / 6), Math.round(((i % 6) * 255) / 5))
+  }
+  // Loop forever
+  bytes.push(0x21, 0xff, 0x0b, ...Array.from("NETSCAPE2.0", (c) => c.charCodeAt(0)), 0x03, 0x01, 0x00, 0x00, 0x00)
+}
+
+// Variable-length LZW as GIF wants it, codes packed least significant bit first
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  const out: number[] = []
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+  let buffer = 0
+  let bits = 0
+
+  const emit = (code: number) => {
+    buffer |= code << bits
+    bits += codeSize
+    while (bits >= 8) {
+      out.push(buffer & 0xff)
+      buffer >>>= 8
+      bits -= 8
+    }
+  }
+
+  emit(clearCode)
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i]
+    const code = table.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+    emit(prefix)
+    if (nextCode === 4096) {
+      emit(clearCode)
+      table = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+    prefix = indices[i]
+  }
+  emit(prefix)
+  emit(endCode)
+  if (bits > 0) out.push(buffer & 0xff)
+  return out
+}
+
+// --- Animated WebP ---
+
+// Each frame is encoded by the canvas, then the frames are muxed into one animated RIFF file
+async function encodeAnimatedWebp(video: HTMLVideoElement, trim: Trim): Promise<string> {
+  const frames: Uint8Array[] = []
+  let width = 0
+  let height = 0
+  let alpha = false
+
+  await forEachFrame(video, trim, async (canvas) => {
+    width = canvas.width
+    height = canvas.height
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/webp", 0.8))
+    if (!blob) throw new Error("WebP encoding is not supported")
+    const chunks = webpFrameChunks(new Uint8Array(await blob.arrayBuffer()))
+    alpha ||= chunks.alpha
+    frames.push(chunks.data)
+  })
+  if (!frames.length) throw new Error("Nothing to export in the selected range")
+
+  const duration = Math.round(1000 / ANIMATION_FPS)
+  const body = [
+    riffChunk("VP8X", [alpha ? 0x12 : 0x02, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]),
+    riffChunk("ANIM", [0, 0, 0, 0, 0, 0]) // transparent background, loop forever
+  ]
+  for (const frame of frames) {
+    // Offset 0,0, full size, "do not blend" so every frame replaces the previous one
+    const header = [...uint24(0), ...uint24(0), ...uint24(width - 1), ...uint24(height - 1), ...uint24(duration), 0x02]
+    body.push(riffChunk("ANMF", [...header, ...frame]))
+  }
+  const size = 4 + body.reduce((sum, chunk) => sum + chunk.length, 0)
+  const file = new Blob([ascii("RIFF"), new Uint8Array(uint32(size)), ascii("WEBP"), ...body], { type: "image/webp" })
+  return blobToDataUrl(file)
+}
+
+// The image chunks of a still WebP (VP8/VP8L, plus ALPH), without its RIFF and VP8X headers
+function webpFrameChunks(file: Uint8Array): { data: Uint8Array; alpha: boolean } {
+  const parts: Uint8Array[] = []
+  let alpha = false
+  for (let offset = 12; offset + 8 <= file.length;) {
+    const fourcc = String.fromCharCode(...file.subarray(offset, offset + 4))
+    const size = file[offset + 4] | (file[offset + 5] << 8) | (file[offset + 6] << 16) | (file[offset + 7] << 24)
+    const end = offset + 8 + size + (size & 1)
+    if (fourcc !== "VP8X") parts.push(file.subarray(offset, end))
+    if (fourcc === "ALPH") alpha = true
+    offset = end
+  }
+  const data = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  parts.reduce((offset, part) => {
+    data.set(part, offset)
+    return offset + part.length
+  }, 0)
+  return { data, alpha }
+}
+
+function riffChunk(fourcc: string, payload: number[]) {
+  const padded = payload.length & 1 ? [...payload, 0] : payload
+  return new Uint8Array([...ascii(fourcc), ...uint32(payload.length), ...padded])
+}
+
+function ascii(s: string) {
+  return Uint8Array.from(s, (c) => c.charCodeAt(0))
+}
+
+function uint24(n: number) {
+  return [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff]
+}
+
+function uint32(n: number) {
+  return [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff]
+}
@@ -0,0 +1,212 @@
+// src/lib/annotations.ts
+// Vector annotation layer for image captures. Annotations are stored next to the image
+// (in image pixel coordinates) rather than burnt in, so the library can show or hide them.
+// Pixelate regions are the exception: they are redactions and get burnt in before a capture
+// is saved, uploaded or exported (see burnRedactions).
+// The same renderer is used by the editor, the library and when flattening for download.
+
+export type Point = { x: number; y: number }
+
+type Shape<Kind extends string, Props> = { id: string; kind: Kind } & Props
+
+export type Annotation =
+  | Shape<"rect", { x: number; y: number; w: number; h: number; color: string; width: number }>
+  | Shape<"arrow", { from: Point; to: Point; color: string; width: number }>
+  | Shape<"callout", { x: number; y: number; number: number; color: string; size: number }>
+  | Shape<"pen", { points: Point[]; color: string; width: number }>
+  | Shape<"text", { x: number; y: number; text: string; color: string; size: number }>
+  | Shape<"blur", { x: number; y: number; w: number; h: number; blockSize: number }>
+
+export type AnnotationKind = Annotation["kind"]
+
+export type CropRect = { x: number; y: number; w: number; h: number }
+
+/**
+ * Draws the annotations on top of an already drawn base image. `image` is needed
+ * for the pixelate tool, which samples the original pixels under its rectangle.
+ */
+export function drawAnnotations(ctx: CanvasRenderingContext2D, image: CanvasImageSource, annotations: Annotation[]) {
+  for (const a of annotations) {
+    ctx.save()
+    switch (a.kind) {
+      case "blur":
+        drawPixelated(ctx, image, a)
+        break
+      case "rect":
+        ctx.strokeStyle = a.color
+        ctx.lineWidth = a.width
+        ctx.strokeRect(a.x, a.y, a.w, a.h)
+        break
+      case "arrow":
+        drawArrow(ctx, a.from, a.to, a.color, a.width)
+        break
+      case "pen":
+        if (a.points.length < 2) break
+        ctx.strokeStyle = a.color
+        ctx.lineWidth = a.width
+        ctx.lineCap = "round"
+        ctx.lineJoin = "round"
+        ctx.beginPath()
+        ctx.moveTo(a.points[0].x, a.points[0].y)
+        for (const p of a.points.slice(1)) ctx.lineTo(p.x, p.y)
+        ctx.stroke()
+        break
+      case "callout":
+        ctx.fillStyle = a.color
+        ctx.beginPath()
+        ctx.arc(a.x, a.y, a.size / 2, 0, Math.PI * 2)
+        ctx.fill()
+        ctx.fillStyle = "#ffffff"
+        ctx.font = `bold ${Math.round(a.size * 0.55)}px sans-serif`
+        ctx.textAlign = "center"
+        ctx.textBaseline = "middle"
+        ctx.fillText(String(a.number), a.x, a.y)
+        break
+      case "text":
+        ctx.font = `bold ${a.size}px sans-serif`
+        ctx.textBaseline = "top"
+        // Dark outline keeps labels readable on any background
+        ctx.lineWidth = Math.max(2, a.size / 6)
+        ctx.strokeStyle = "rgba(0, 0, 0, 0.7)"
+        ctx.strokeText(a.text, a.x, a.y)
+        ctx.fillStyle = a.color
+        ctx.fillText(a.text, a.x, a.y)
+        break
+    }
+    ctx.restore()
+  }
+}
+
+// Renders image + annotations into a new PNG data URL
+export async function flattenAnnotations(imageDataUrl: string, annotations: Annotation[]): Promise<string> {
+  if (!annotations.length) return imageDataUrl
+  const image = await loadImage(imageDataUrl)
+  const canvas = document.createElement("canvas")
+  canvas.width = image.naturalWidth
+  canvas.height = image.naturalHeight
+  const ctx = canvas.getContext("2d")!
+  ctx.drawImage(image, 0, 0)
+  drawAnnotations(ctx, image, annotations)
+  return canvas.toDataURL("image/png")
+}
+
+/**
+ * Pixelates the blur regions into the image itself and keeps only the non-destructive
+ * shapes as the vector layer, so the redacted pixels never leave the editor.
+ */
+export async function burnRedactions(
+  imageDataUrl: string,
+  annotations: Annotation[]
+): Promise<{ imageDataUrl: string; annotations: Annotation[] }> {
+  const redactions = annotations.filter((a) => a.kind === "blur")
+  if (!redactions.length) return { imageDataUrl, annotations }
+  return {
+    imageDataUrl: await flattenAnnotations(imageDataUrl, redactions),
+    annotations: annotations.filter((a) => a.kind !== "blur")
+  }
+}
+
+/**
+ * Crops the base image and moves the annotations along, so the layer keeps lining up.
+ * Annotations that end up entirely outside the crop are dropped.
+ */
+export async function cropWithAnnotations(
+  imageDataUrl: string,
+  annotations: Annotation[],
+  crop: CropRect
+): Promise<{ imageDataUrl: string; annotations: Annotation[] }> {
+  const image = await loadImage(imageDataUrl)
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(crop.w))
+  canvas.height = Math.max(1, Math.round(crop.h))
+  canvas.getContext("2d")!.drawImage(image, crop.x, crop.y, crop.w, crop.h, 0, 0, crop.w, crop.h)
+
+  const moved = annotations
+    .map((a) => translateAnnotation(a, -crop.x, -crop.y))
+    .filter((a) => {
+      const b = annotationBounds(a)
+      return b.x + b.w > 0 && b.y + b.h > 0 && b.x < crop.w && b.y < crop.h
+    })
+
+  return { imageDataUrl: canvas.toDataURL("image/png"), annotations: moved }
+}
+
+export function normalizeRect(from: Point, to: Point): CropRect {
+  return {
+    x: Math.min(from.x, to.x),
+    y: Math.min(from.y, to.y),
+    w: Math.abs(to.x - from.x),
+    h: Math.abs(to.y - from.y)
+  }
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = reject
+    img.src = src
+  })
+}
+
+function translateAnnotation(a: Annotation, dx: number, dy: number): Annotation {
+  const move = (p: Point) => ({ x: p.x + dx, y: p.y + dy })
+  switch (a.kind) {
+    case "arrow":
+      return { ...a, from: move(a.from), to: move(a.to) }
+    case "pen":
+      return { ...a, points: a.points.map(move) }
+    default:
+      return { ...a, x: a.x + dx, y: a.y + dy }
+  }
+}
+
+function annotationBounds(a: Annotation): CropRect {
+  switch (a.kind) {
+    case "arrow":
+      return normalizeRect(a.from, a.to)
+    case "pen": {
+      const xs = a.points.map((p) => p.x)
+      const ys = a.points.map((p) => p.y)
+      return normalizeRect({ x: Math.min(...xs), y: Math.min(...ys) }, { x: Math.max(...xs), y: Math.max(...ys) })
+    }
+    case "callout":
+      return { x: a.x - a.size / 2, y: a.y - a.size / 2, w: a.size, h: a.size }
+    case "text":
+      return { x: a.x, y: a.y, w: a.text.length * a.size * 0.6, h: a.size }
+    default:
+      return { x: a.x, y: a.y, w: a.w, h: a.h }
+  }
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, from: Point, to: Point, color: string, width: number) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x)
+  const head = width * 4
+  ctx.strokeStyle = color
+  ctx.fillStyle = color
+  ctx.lineWidth = width
+  ctx.lineCap = "round"
+  ctx.beginPath()
+  ctx.moveTo(from.x, from.y)
+  ctx.lineTo(to.x - Math.cos(angle) * head * 0.8, to.y - Math.sin(angle) * head * 0.8)
+  ctx.stroke()
+  ctx.beginPath()
+  ctx.moveTo(to.x, to.y)
+  ctx.lineTo(to.x - head * Math.cos(angle - Math.PI / 7), to.y - head * Math.sin(angle - Math.PI / 7))
+  ctx.lineTo(to.x - head * Math.cos(angle + Math.PI / 7), to.y - head * Math.sin(angle + Math.PI / 7))
+  ctx.closePath()
+  ctx.fill()
+}
+
+// Pixelate by drawing the region tiny and scaling it back up without smoothing
+function drawPixelated(ctx: CanvasRenderingContext2D, image: CanvasImageSource, a: Extract<Annotation, { kind: "blur" }>) {
+  const w = Math.round(a.w)
+  const h = Math.round(a.h)
+  if (w < 1 || h < 1) return
+  const small = document.createElement("canvas")
+  small.width = Math.max(1, Math.round(w / a.blockSize))
+  small.height = Math.max(1, Math.round(h / a.blockSize))
+  small.getContext("2d")!.drawImage(image, a.x, a.y, w, h, 0, 0, small.width, small.height)
+  ctx.imageSmoothingEnabled = false
+  ctx.drawImage(small, 0, 0, small.width, small.height, a.x, a.y, w, h)
+}
@@ -0,0 +1,210 @@
+// src/lib/auth.ts
+// Per-profile credentials for authenticated uploads. Background only: sessions live in
+// the extension's IndexedDB, which content scripts can't reach (unlike chrome.storage.local),
+// and the token is only ever attached to requests made from the worker.
+//
+// Two ways to get a token:
+// - Sign in through the profile's `signInUrl` with launchWebAuthFlow. The page redirects to
+//   chrome.identity.getRedirectURL() with access_token (and optionally refresh_token,
+//   expires_in, name, email) in the fragment or query.
+// - Paste a personal API key on the options page.
+// Both are sent as `Authorization: Bearer <token>`.
+
+import { AUTH_STORE, withStore } from "~lib/db"
+import type { Profile } from "~lib/profiles"
+
+export type AuthUser = {
+  id: string | null
+  name: string | null
+  email: string | null
+}
+
+export type AuthSession = {
+  profileId: string
+  kind: "signIn" | "apiKey"
+  accessToken: string
+  refreshToken: string | null
+  expiresAt: number | null
+  user: AuthUser
+  rejectedAt?: number // the server kept answering 401, the user has to sign in again or replace the key
+}
+
+// What extension pages and the overlay get to see, never the token itself
+export type AuthStatus = {
+  signedIn: boolean
+  kind: AuthSession["kind"] | null
+  user: AuthUser | null
+  authRequired: boolean
+}
+
+export class AuthRequiredError extends Error {
+  constructor(message = "Sign in required") {
+    super(message)
+  }
+}
+
+// Refresh a bit before the token actually expires
+const EXPIRY_MARGIN_MS = 60_000
+
+export function getSession(profileId: string): Promise<AuthSession | undefined> {
+  return withStore<AuthSession | undefined>(AUTH_STORE, "readonly", (store) => store.get(profileId))
+}
+
+export async function getAuthStatus(profileId: string): Promise<AuthStatus> {
+  const session = await getSession(profileId)
+  return { signedIn: !!session, kind: session?.kind ?? null, user: session?.user ?? null, authRequired: !!session?.rejectedAt }
+}
+
+export async function signIn(profile: Profile, interactive = true): Promise<AuthSession> {
+  if (!profile.signInUrl) throw new AuthRequiredError(`Profile "${profile.name}" has no sign-in URL`)
+
+  const url = new URL(profile.signInUrl)
+  url.searchParams.set("redirect_uri", chrome.identity.getRedirectURL())
+  const redirect = await chrome.identity.launchWebAuthFlow({ url: url.toString(), interactive })
+  if (!redirect) throw new AuthRequiredError("Sign-in was cancelled")
+
+  const redirectUrl = new URL(redirect)
+  const params = new URLSearchParams(redirectUrl.hash.slice(1) || redirectUrl.search)
+  const accessToken = params.get("access_token")
+  if (!accessToken) throw new AuthRequiredError(params.get("error") ?? "Sign-in returned no token")
+
+  const session: AuthSession = {
+    profileId: profile.id,
+    kind: "signIn",
+    accessToken,
+    refreshToken: params.get("refresh_token"),
+    expiresAt: expiresAt(params.get("expires_in")),
+    user: userFromToken(accessToken, { name: params.get("name"), email: params.get("email") })
+  }
+  await putSession(session)
+  console.log("🔐 Signed in to profile:", profile.name, session.user)
+  return session
+}
+
+export async function setApiKey(profile: Profile, apiKey: string, user: Pick<AuthUser, "name" | "email">) {
+  await putSession({
+    profileId: profile.id,
+    kind: "apiKey",
+    accessToken: apiKey,
+    refreshToken: null,
+    expiresAt: null,
+    user: { id: null, name: user.name || null, email: user.email || null }
+  })
+  console.log("🔐 API key stored for profile:", profile.name)
+}
+
+export function signOut(profileId: string) {
+  return withStore(AUTH_STORE, "readwrite", (store) => store.delete(profileId))
+}
+
+/**
+ * fetch() with the profile's token attached. On 401 we refresh the token (or silently
+ * re-run the sign-in flow) and try once more; if that doesn't help the session is
+ * marked as rejected and AuthRequiredError tells the caller the user has to sign in again.
+ * The credentials themselves are kept, a pasted API key is only replaced by the user.
+ * Profiles without any credentials are sent anonymously.
+ */
+export async function authorizedFetch(profile: Profile, url: string, init: RequestInit): Promise<Response> {
+  let session = await getSession(profile.id)
+  if (session?.expiresAt && session.expiresAt - EXPIRY_MARGIN_MS < Date.now()) {
+    session = await renewSession(profile, session)
+  }
+
+  const res = await fetch(url, withToken(init, session))
+  if (res.status !== 401) {
+    if (session?.rejectedAt) await putSession({ ...session, rejectedAt: undefined })
+    return res
+  }
+
+  console.warn("🔐 Upload rejected with 401, renewing credentials for profile:", profile.name)
+  const renewed = session ? await renewSession(profile, session) : await silentSignIn(profile)
+  if (renewed) {
+    const retry = await fetch(url, withToken(init, renewed))
+    if (retry.status !== 401) {
+      if (renewed.rejectedAt) await putSession({ ...renewed, rejectedAt: undefined })
+      return retry
+    }
+  }
+
+  const current = await getSession(profile.id)
+  if (current) await putSession({ ...current, rejectedAt: Date.now() })
+  console.warn("🔐 Credentials rejected for profile:", profile.name)
+  throw new AuthRequiredError()
+}
+
+// The uploader as recorded in the payload, so the backend knows who captured what
+export async function getUploader(profileId: string): Promise<AuthUser | null> {
+  return (await getSession(profileId))?.user ?? null
+}
+
+async function renewSession(profile: Profile, session: AuthSession): Promise<AuthSession | null> {
+  if (session.kind === "apiKey") return null
+
+  if (session.refreshToken && profile.refreshUrl) {
+    try {
+      const res = await fetch(profile.refreshUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refresh_token: session.refreshToken })
+      })
+      const data = res.ok ? await res.json() : null
+      if (typeof data?.access_token === "string" && data.access_token) {
+        const renewed: AuthSession = {
+          ...session,
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token ?? session.refreshToken,
+          expiresAt: expiresAt(data.expires_in)
+        }
+        await putSession(renewed)
+        return renewed
+      }
+      // A 2xx without a token is no renewal, storing it would send "Bearer undefined" from now on
+      console.warn("⚠️ Token refresh failed:", res.ok ? "no access_token in the response" : `${res.status} ${res.statusText}`)
+    } catch (error) {
+      console.warn("⚠️ Token refresh failed:", error)
+    }
+  }
+
+  return silentSignIn(profile)
+}
+
+// Works when the identity provider still has a session, otherwise the user has to click sign in
+async function silentSignIn(profile: Profile): Promise<AuthSession | null> {
+  if (!profile.signInUrl) return null
+  try {
+    return await signIn(profile, false)
+  } catch {
+    return null
+  }
+}
+
+function withToken(init: RequestInit, session: AuthSession | null | undefined): RequestInit {
+  if (!session) return init
+  return { ...init, headers: { ...(init.headers as Record<string, string>), Authorization: `Bearer ${session.accessToken}` } }
+}
+
+function putSession(session: AuthSession) {
+  return withStore(AUTH_STORE, "readwrite", (store) => store.put(session))
+}
+
+function expiresAt(expiresIn: string | number | null | undefined): number | null {
+  const seconds = Number(expiresIn)
+  return expiresIn != null && Number.isFinite(seconds) ? Date.now() + seconds * 1000 : null
+}
+
+// JWTs carry the identity in their claims; anything else falls back to the redirect params
+function userFromToken(token: string, fallback: Pick<AuthUser, "name" | "email">): AuthUser {
+  try {
+    // base64url without padding, and the claims are UTF-8, which atob alone would mangle
+    const part = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")
+    const binary = atob(part.padEnd(Math.ceil(part.length / 4) * 4, "="))
+    const claims = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0))))
+    return {
+      id: claims.sub ?? null,
+      name: claims.name ?? fallback.name,
+      email: claims.email ?? fallback.email
+    }
+  } catch {
+    return { id: null, ...fallback }
+  }
+}
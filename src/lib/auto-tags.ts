@@ -0,0 +1,215 @@
+// src/lib/auto-tags.ts
+// Tag suggestions computed locally from what was captured: ARIA roles and tag names,
+// the vocabulary of class names, the visible text and hints about the kind of page
+// (product page, checkout, login, pricing …). Shown as chips next to the tags field.
+
+import { composedParent, elementCoveringRegion, elementsInScope, rectInTopWindow, type ElementScope } from "~lib/dom-picker"
+
+const MAX_ELEMENTS = 500
+const MAX_SUGGESTIONS = 8
+const MAX_DESCENDANT_SCORE = 5 // fifty buttons in a list shouldn't outrank the list
+const CONTEXT_DEPTH = 4 // ancestors looked at for a surrounding nav, dialog, form …
+
+// Explicit or implicit ARIA role → tag
+const ROLE_TAGS: Record<string, string> = {
+  button: "button",
+  link: "link",
+  navigation: "nav",
+  dialog: "modal",
+  alertdialog: "modal",
+  tablist: "tabs",
+  menu: "menu",
+  menubar: "menu",
+  search: "search",
+  banner: "header",
+  contentinfo: "footer",
+  complementary: "sidebar",
+  form: "form",
+  table: "table",
+  grid: "table",
+  list: "list",
+  checkbox: "checkbox",
+  radio: "radio",
+  switch: "toggle",
+  slider: "slider",
+  progressbar: "progress",
+  tooltip: "tooltip",
+  alert: "alert",
+  combobox: "dropdown",
+  listbox: "dropdown",
+  textbox: "input",
+  searchbox: "search"
+}
+
+const IMPLICIT_ROLES: Record<string, string> = {
+  button: "button",
+  a: "link",
+  nav: "navigation",
+  dialog: "dialog",
+  header: "banner",
+  footer: "contentinfo",
+  aside: "complementary",
+  form: "form",
+  table: "table",
+  ul: "list",
+  ol: "list",
+  select: "combobox",
+  textarea: "textbox",
+  progress: "progressbar"
+}
+
+// Words found in class names (split on -, _ and camelCase) → tag
+const CLASS_VOCABULARY: Record<string, string> = {
+  btn: "button", button: "button", cta: "cta",
+  card: "card", tile: "card",
+  nav: "nav", navbar: "nav", navigation: "nav", menu: "menu", dropdown: "dropdown",
+  modal: "modal", dialog: "modal", popup: "modal", drawer: "drawer", overlay: "modal",
+  hero: "hero", banner: "banner", header: "header", footer: "footer", sidebar: "sidebar",
+  tabs: "tabs", tab: "tabs", accordion: "accordion", collapse: "accordion",
+  carousel: "carousel", slider: "carousel", swiper: "carousel", slick: "carousel",
+  pagination: "pagination", pager: "pagination", breadcrumb: "breadcrumb", breadcrumbs: "breadcrumb",
+  badge: "badge", chip: "chip", pill: "chip", avatar: "avatar", tooltip: "tooltip",
+  toast: "toast", snackbar: "toast", notification: "toast", alert: "alert",
+  pricing: "pricing", price: "pricing", plan: "pricing", plans: "pricing",
+  cart: "cart", basket: "cart", checkout: "checkout",
+  product: "product", search: "search", filter: "filters", filters: "filters", facet: "filters",
+  form: "form", input: "input", field: "input", textfield: "input", select: "dropdown",
+  table: "table", grid: "grid", list: "list", stepper: "stepper", steps: "stepper",
+  progress: "progress", testimonial: "testimonial", testimonials: "testimonial", review: "reviews",
+  reviews: "reviews", rating: "rating", stars: "rating", faq: "faq", newsletter: "newsletter",
+  login: "login", signin: "login", signup: "signup", register: "signup",
+  profile: "profile", settings: "settings", toggle: "toggle", switch: "toggle",
+  calendar: "calendar", datepicker: "calendar", skeleton: "skeleton", spinner: "loader", loader: "loader",
+  cookie: "cookie-banner", consent: "cookie-banner"
+}
+
+// Phrases in the captured text → tag
+const TEXT_HINTS: Array<[RegExp, string]> = [
+  [/\badd to (?:cart|bag|basket)\b|\bbuy now\b|lägg i varukorgen/i, "pdp"],
+  [/\bcheckout\b|\bplace order\b|kassan?\b|\bpayment method\b/i, "checkout"],
+  [/\b(?:sign|log) in\b|\bforgot (?:your )?password\b|logga in/i, "login"],
+  [/\bsign up\b|\bcreate (?:an )?account\b|registrera/i, "signup"],
+  [/\bsubscribe\b|\bnewsletter\b|nyhetsbrev/i, "newsletter"],
+  [/\bper (?:month|year)\b|\/\s?(?:mo|month|yr)\b|\bbilled (?:monthly|annually)\b|\/\s?mån\b/i, "pricing"],
+  [/\bcookies?\b.*\b(?:accept|consent)\b|\bacceptera (?:alla )?cookies\b/i, "cookie-banner"],
+  [/\bfrequently asked\b|\bfaq\b/i, "faq"]
+]
+
+/**
+ * Suggestions for a picked subtree or a lasso region, best first. The root of a picked
+ * subtree (or whatever lies fully inside a lasso) counts most, then its descendants,
+ * the containers around it and the page type.
+ */
+export function suggestTags(scope: ElementScope, ignore: (el: Element) => boolean = () => false): string[] {
+  const scores = new Map<string, number>()
+  const descendantScores = new Map<string, number>()
+  const add = (map: Map<string, number>, tag: string | undefined, weight: number) => {
+    if (tag) map.set(tag, (map.get(tag) ?? 0) + weight)
+  }
+
+  // Page wrappers overlap every lasso, only what the lasso encloses describes it
+  const region = "rect" in scope ? scope.rect : null
+  const elements = elementsInScope(scope, MAX_ELEMENTS, ignore).filter((el) => !region || containsRect(region, rectInTopWindow(el)))
+  for (const [index, el] of elements.entries()) {
+    const isRoot = !region && index === 0
+    for (const tag of elementTags(el)) add(isRoot ? scores : descendantScores, tag, isRoot ? 3 : 1)
+  }
+  for (const [tag, score] of descendantScores) add(scores, tag, Math.min(score, MAX_DESCENDANT_SCORE))
+
+  // Containers around the capture: a button inside a modal is a modal button
+  let ancestor = region ? elementCoveringRegion(region, ignore) : composedParent((scope as { root: Element }).root)
+  for (let depth = 0; ancestor && depth < CONTEXT_DEPTH; depth++, ancestor = composedParent(ancestor)) {
+    const role = roleOf(ancestor)
+    if (["navigation", "dialog", "alertdialog", "form", "banner", "contentinfo", "complementary"].includes(role)) add(scores, ROLE_TAGS[role], 1)
+  }
+
+  const text = elements
+    .slice(0, 50)
+    .map((el) => (el as HTMLElement).innerText ?? "")
+    .join(" ")
+    .slice(0, 4000)
+  for (const [pattern, tag] of TEXT_HINTS) if (pattern.test(text)) add(scores, tag, 2)
+
+  for (const tag of pageTypeHints()) add(scores, tag, 1.5)
+
+  return [...scores.entries()]
+    .filter(([, score]) => score >= 1)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([tag]) => tag)
+}
+
+/**
+ * What kind of page this is, from URL, structured data and form fields: "pdp", "checkout",
+ * "cart", "login", "pricing", "search-results".
+ */
+function pageTypeHints(): string[] {
+  const hints = new Set<string>()
+  const path = location.pathname.toLowerCase()
+
+  const ldTypes = Array.from(document.querySelectorAll('script[type="application/ld+json"]')).flatMap((script) => {
+    try {
+      return collectLdTypes(JSON.parse(script.textContent ?? ""))
+    } catch {
+      return []
+    }
+  })
+  const ogType = document.querySelector<HTMLMetaElement>('meta[property="og:type"]')?.content ?? ""
+  if (ldTypes.includes("Product") || /product/i.test(ogType) || /\/(?:products?|p|dp|item)\//.test(path)) hints.add("pdp")
+
+  if (/\/checkout|\/kassa/.test(path) || document.querySelector('input[autocomplete="cc-number"]')) hints.add("checkout")
+  if (/\/(?:cart|basket|varukorg)/.test(path)) hints.add("cart")
+  if (document.querySelector('input[type="password"]') && /log-?in|sign-?in|auth|account/.test(path)) hints.add("login")
+  if (/\/(?:pricing|plans|priser)/.test(path)) hints.add("pricing")
+  if (/\/search|\/sok/.test(path) || new URLSearchParams(location.search).has("q")) hints.add("search-results")
+  return [...hints]
+}
+
+/** "checkout, button ,, hero" → ["checkout", "button", "hero"], trimmed and without duplicates */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(",").map((tag) => tag.trim()).filter(Boolean))]
+}
+
+function elementTags(el: Element): string[] {
+  const tags: string[] = []
+  const role = roleOf(el)
+  if (ROLE_TAGS[role]) tags.push(ROLE_TAGS[role])
+  if (el.localName === "video") tags.push("video")
+  if (el.localName === "img" && (el as HTMLImageElement).width >= 200) tags.push("image")
+  if (el.localName === "input" && ["checkbox", "radio", "range", "search"].includes((el as HTMLInputElement).type)) {
+    tags.push({ checkbox: "checkbox", radio: "radio", range: "slider", search: "search" }[(el as HTMLInputElement).type])
+  }
+  for (const c of Array.from(el.classList)) {
+    for (const word of c.split(/[-_]+|(?<=[a-z])(?=[A-Z])/)) {
+      const tag = CLASS_VOCABULARY[word.toLowerCase()]
+      if (tag && !tags.includes(tag)) tags.push(tag)
+    }
+  }
+  return tags
+}
+
+function roleOf(el: Element): string {
+  const explicit = el.getAttribute("role")?.split(/\s+/)[0]
+  if (explicit) return explicit
+  if (el.localName === "input") {
+    const type = (el as HTMLInputElement).type
+    if (["button", "submit", "reset"].includes(type)) return "button"
+    if (type === "search") return "searchbox"
+    if (["text", "email", "tel", "url", "password"].includes(type)) return "textbox"
+    return type
+  }
+  if (el.localName === "a" && !el.hasAttribute("href")) return ""
+  return IMPLICIT_ROLES[el.localName] ?? ""
+}
+
+function collectLdTypes(data: any): string[] {
+  if (Array.isArray(data)) return data.flatMap(collectLdTypes)
+  if (!data || typeof data !== "object") return []
+  const own = [data["@type"]].flat().filter((type) => typeof type === "string")
+  return [...own, ...collectLdTypes(data["@graph"] ?? [])]
+}
+
+function containsRect(outer: { x: number; y: number; w: number; h: number }, inner: DOMRect) {
+  // A pixel of slack, lassos are drawn by hand
+  return inner.left >= outer.x - 1 && inner.top >= outer.y - 1 && inner.right <= outer.x + outer.w + 1 && inner.bottom <= outer.y + outer.h + 1
+}
@@ -0,0 +1,84 @@
+// src/lib/capture-scale.ts
+// Geometry between CSS pixels and screenshot pixels, and the density captures are saved at.
+// A captureVisibleTab screenshot shows the visual viewport (pinch zoom included) plus the
+// scrollbars, at the device pixel ratio, which already includes the browser zoom. Crops and
+// stitches map client coordinates through this instead of assuming image width / innerWidth.
+
+export type OutputDensity = "1x" | "2x" | "native"
+
+export type CaptureScaleSettings = {
+  density: OutputDensity
+}
+
+// Recorded with every image capture, `pixelRatio` goes into the payload as `image_scale`
+export type ImageScale = {
+  pixelRatio: number // image pixels per CSS pixel
+  density: OutputDensity
+  devicePixelRatio: number // at capture time, includes the browser zoom
+  zoom: number // browser zoom of the tab, 1 when unknown
+  pinchZoom: number // visualViewport.scale
+}
+
+// The visual viewport in CSS pixels of the layout viewport
+export type ViewportGeometry = {
+  devicePixelRatio: number
+  pinchZoom: number
+  offsetX: number // visual viewport inside the layout viewport
+  offsetY: number
+  width: number // without scrollbars
+  height: number
+  scrollbarWidth: number // pinch zoom doesn't magnify scrollbars
+}
+
+export const OUTPUT_DENSITY_LABELS: Record<OutputDensity, string> = {
+  "1x": "1x (CSS pixels)",
+  "2x": "2x",
+  native: "Native (screen pixels)"
+}
+
+const STORAGE_KEY = "captureScaleSettings"
+
+export const DEFAULT_CAPTURE_SCALE_SETTINGS: CaptureScaleSettings = {
+  density: "native"
+}
+
+export async function getCaptureScaleSettings(): Promise<CaptureScaleSettings> {
+  const stored = await chrome.storage.sync.get(STORAGE_KEY)
+  return { ...DEFAULT_CAPTURE_SCALE_SETTINGS, ...(stored[STORAGE_KEY] as Partial<CaptureScaleSettings> | undefined) }
+}
+
+export function saveCaptureScaleSettings(settings: CaptureScaleSettings) {
+  return chrome.storage.sync.set({ [STORAGE_KEY]: settings })
+}
+
+/**
+ * Screenshot pixels per CSS pixel, measured on the screenshot itself: its width is the
+ * visual viewport plus the vertical scrollbar, which is drawn at the device pixel ratio.
+ */
+export function screenshotPixelRatio(imageWidth: number, geometry: ViewportGeometry) {
+  return (imageWidth - geometry.scrollbarWidth * geometry.devicePixelRatio) / geometry.width
+}
+
+// Image pixels per CSS pixel of the saved capture
+export function outputPixelRatio(density: OutputDensity, nativeRatio: number) {
+  if (density === "1x") return 1
+  if (density === "2x") return 2
+  return nativeRatio
+}
+
+// --- Content side ---
+
+// Also injected into the page by lib/capture.ts, so it must stay self-contained
+export function viewportGeometry(): ViewportGeometry {
+  const viewport = window.visualViewport
+  const doc = document.documentElement
+  return {
+    devicePixelRatio: window.devicePixelRatio,
+    pinchZoom: viewport?.scale ?? 1,
+    offsetX: viewport?.offsetLeft ?? 0,
+    offsetY: viewport?.offsetTop ?? 0,
+    width: viewport?.width ?? doc.clientWidth,
+    height: viewport?.height ?? doc.clientHeight,
+    scrollbarWidth: Math.max(0, window.innerWidth - doc.clientWidth)
+  }
+}
@@ -0,0 +1,243 @@
+// src/lib/capture.ts
+// Screenshot helpers used by the background worker: a throttled wrapper around
+// captureVisibleTab and a scroll-and-stitch capture of the full page (or a region of it)
+// built on top of it.
+
+import {
+  getCaptureScaleSettings,
+  outputPixelRatio,
+  screenshotPixelRatio,
+  viewportGeometry,
+  type ImageScale
+} from "~lib/capture-scale"
+import { blobToDataUrl } from "~lib/data-url"
+import { ProtocolError } from "~lib/protocol"
+
+export type PageDimensions = { width: number; height: number }
+
+// Document CSS pixels
+export type PageRegion = { x: number; y: number; width: number; height: number }
+
+export type FullPageCaptureResult = {
+  dataUrl: string
+  pageDimensions: PageDimensions
+  scale: ImageScale
+  truncated: boolean
+}
+
+// `capturing` is true right before a slice is taken so the overlay can get out of the shot
+export type CaptureProgress = { done: number; total: number; capturing: boolean }
+
+// Chrome allows at most MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND calls, add a small margin on top
+const MIN_CAPTURE_INTERVAL_MS = Math.ceil(1000 / chrome.tabs.MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND) + 50
+
+// Canvas dimensions above this fail to allocate in Chrome, so very long pages get cut
+const MAX_CANVAS_DIMENSION = 32767
+
+let lastCaptureAt = 0
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Captures the visible area of the given window as a PNG data URL.
+ * Calls are spaced out so we never hit the captureVisibleTab quota, which would
+ * otherwise reject with "MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND" mid stitch.
+ */
+export async function captureVisibleTab(windowId: number): Promise<string> {
+  await waitForCaptureSlot()
+  lastCaptureAt = Date.now()
+
+  return new Promise<string>((resolve, reject) => {
+    chrome.tabs.captureVisibleTab(windowId, { format: "png" }, (dataUrl) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message))
+      } else {
+        resolve(dataUrl)
+      }
+    })
+  })
+}
+
+function waitForCaptureSlot(): Promise<void> {
+  const wait = lastCaptureAt + MIN_CAPTURE_INTERVAL_MS - Date.now()
+  return wait > 0 ? sleep(wait) : Promise.resolve()
+}
+
+/**
+ * Scrolls the tab one viewport at a time, captures every slice and stitches them
+ * into a single image. Fixed elements are hidden after the first slice and sticky
+ * elements are pinned to their natural position so headers don't repeat.
+ * Aborting the signal stops before the next slice. The original scroll position and
+ * styles are always restored.
+ */
+export function captureFullPage(
+  tabId: number,
+  windowId: number,
+  onProgress?: (progress: CaptureProgress) => Promise<void>,
+  signal?: AbortSignal
+): Promise<FullPageCaptureResult> {
+  return captureRegion(tabId, windowId, null, onProgress, signal)
+}
+
+/**
+ * Same as captureFullPage, but only the slices covering `region` (document CSS pixels) are
+ * taken and the result is cropped to it. Used for lasso selections larger than the viewport.
+ */
+export async function captureRegion(
+  tabId: number,
+  windowId: number,
+  region: PageRegion | null,
+  onProgress?: (progress: CaptureProgress) => Promise<void>,
+  signal?: AbortSignal
+): Promise<FullPageCaptureResult> {
+  if (region && (!(region.width > 0) || !(region.height > 0))) {
+    throw new ProtocolError("FAILED", "Nothing to capture, the region is empty")
+  }
+  const metrics = await runInTab(tabId, preparePage)
+  // Slices are visual viewports, so pinch zoom and scrollbars don't end up in the image
+  const geometry = await runInTab(tabId, viewportGeometry)
+  const { density } = await getCaptureScaleSettings()
+  const zoom = await chrome.tabs.getZoom(tabId).catch(() => 1)
+  console.log("📊 Page metrics:", metrics, geometry)
+
+  const area = region ?? { x: 0, y: 0, width: geometry.width, height: metrics.pageHeight }
+  const slices: Array<{ x: number; y: number; row: number }> = []
+  for (let y = area.y, row = 0; y < area.y + area.height; y += geometry.height, row++) {
+    for (let x = area.x; x < area.x + area.width; x += geometry.width) slices.push({ x, y, row })
+  }
+
+  let canvas: OffscreenCanvas | null = null
+  let ctx: OffscreenCanvasRenderingContext2D | null = null
+  let nativeRatio = 1 // screenshot pixels per CSS pixel
+  let pixelRatio = 1 // output pixels per CSS pixel
+  let truncated = false
+
+  try {
+    for (let i = 0; i < slices.length; i++) {
+      signal?.throwIfAborted()
+      // The browser clamps the scroll position at the page edges, we draw where it landed
+      const scroll = await runInTab(tabId, scrollToSlice, [slices[i].x, slices[i].y])
+      // Fixed elements stay in the whole first row, which is where they sit on the page
+      if (slices[i].row === 1 && slices[i - 1].row === 0) await runInTab(tabId, hideFixedElements)
+
+      await waitForCaptureSlot()
+      await onProgress?.({ done: i, total: slices.length, capturing: true })
+      const dataUrl = await captureVisibleTab(windowId)
+      await onProgress?.({ done: i + 1, total: slices.length, capturing: false })
+      const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob())
+
+      if (!canvas) {
+        nativeRatio = screenshotPixelRatio(bitmap.width, geometry)
+        pixelRatio = outputPixelRatio(density, nativeRatio)
+        const width = Math.max(1, Math.round(area.width * pixelRatio))
+        const height = Math.max(1, Math.round(area.height * pixelRatio))
+        truncated = width > MAX_CANVAS_DIMENSION || height > MAX_CANVAS_DIMENSION
+        canvas = new OffscreenCanvas(Math.min(width, MAX_CANVAS_DIMENSION), Math.min(height, MAX_CANVAS_DIMENSION))
+        ctx = canvas.getContext("2d")
+        ctx.imageSmoothingQuality = "high"
+      }
+
+      // Whatever falls outside the region (scrollbars included) is clipped by the canvas
+      const resize = pixelRatio / nativeRatio
+      const dx = Math.round((scroll.x - area.x) * pixelRatio)
+      const dy = Math.round((scroll.y - area.y) * pixelRatio)
+      ctx.drawImage(bitmap, dx, dy, bitmap.width * resize, bitmap.height * resize)
+      bitmap.close()
+      if (dy >= canvas.height) break
+    }
+  } finally {
+    await runInTab(tabId, restorePage, [metrics.scrollX, metrics.scrollY]).catch((error) => {
+      console.error("❌ Failed to restore page after full page capture:", error)
+    })
+  }
+
+  if (truncated) console.warn("⚠️ Capture larger than canvas limit, it was truncated")
+
+  const blob = await canvas.convertToBlob({ type: "image/png" })
+  return {
+    dataUrl: await blobToDataUrl(blob),
+    pageDimensions: { width: geometry.width, height: metrics.pageHeight },
+    scale: { pixelRatio, density, devicePixelRatio: geometry.devicePixelRatio, zoom, pinchZoom: geometry.pinchZoom },
+    truncated
+  }
+}
+
+async function runInTab<Args extends any[], Result>(
+  tabId: number,
+  func: (...args: Args) => Result | Promise<Result>,
+  args?: Args
+): Promise<Result> {
+  const results = await chrome.scripting.executeScript({ target: { tabId }, func, args })
+  return results?.[0]?.result as Result
+}
+
+// --- Functions below are injected into the page and must be self-contained ---
+
+function preparePage() {
+  const doc = document.documentElement
+  const metrics = {
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    pageHeight: Math.max(
+      document.body.scrollHeight,
+      document.body.offsetHeight,
+      doc.clientHeight,
+      doc.scrollHeight,
+      doc.offsetHeight
+    )
+  }
+
+  // Smooth scrolling would make every scrollTo land somewhere in between
+  doc.dataset.grebrefScrollBehavior = doc.style.scrollBehavior
+  doc.style.setProperty("scroll-behavior", "auto", "important")
+
+  // Sticky elements follow the viewport and would show up in every slice,
+  // pinning them keeps them exactly once at their place in the flow
+  document.querySelectorAll<HTMLElement>("body *").forEach((el) => {
+    if (getComputedStyle(el).position !== "sticky") return
+    el.dataset.grebrefPosition = el.style.position
+    el.style.setProperty("position", "relative", "important")
+  })
+
+  return metrics
+}
+
+// `x`/`y` and the result are where the visual viewport starts on the page
+function scrollToSlice(x: number, y: number) {
+  const viewport = window.visualViewport
+  window.scrollTo(x - (viewport?.offsetLeft ?? 0), y - (viewport?.offsetTop ?? 0))
+  // Wait two frames so the new scroll position (and lazy content) is painted
+  return new Promise<{ x: number; y: number }>((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve({
+      x: viewport?.pageLeft ?? window.scrollX,
+      y: viewport?.pageTop ?? window.scrollY
+    })))
+  })
+}
+
+function hideFixedElements() {
+  document.querySelectorAll<HTMLElement>("body *").forEach((el) => {
+    if (getComputedStyle(el).position !== "fixed") return
+    if (el.tagName.toLowerCase() === "plasmo-csui") return
+    el.dataset.grebrefVisibility = el.style.visibility
+    el.style.setProperty("visibility", "hidden", "important")
+  })
+  return new Promise<void>((resolve) => requestAnimationFrame(() => resolve()))
+}
+
+function restorePage(scrollX: number, scrollY: number) {
+  const doc = document.documentElement
+  document.querySelectorAll<HTMLElement>("[data-grebref-position]").forEach((el) => {
+    el.style.position = el.dataset.grebrefPosition
+    delete el.dataset.grebrefPosition
+  })
+  document.querySelectorAll<HTMLElement>("[data-grebref-visibility]").forEach((el) => {
+    el.style.visibility = el.dataset.grebrefVisibility
+    delete el.dataset.grebrefVisibility
+  })
+  if (doc.dataset.grebrefScrollBehavior !== undefined) {
+    doc.style.scrollBehavior = doc.dataset.grebrefScrollBehavior
+    delete doc.dataset.grebrefScrollBehavior
+  }
+  window.scrollTo(scrollX, scrollY)
+}
@@ -0,0 +1,51 @@
+// src/lib/context-menus.ts
+// Right-click entry points. The background worker owns the menu items and forwards a click
+// to the top frame's overlay as CONTEXT_MENU, which runs it through the normal preview flow.
+// Like a command, a menu click counts as invoking the extension on the tab.
+
+export type ContextMenuAction = "snip-element" | "capture-visible" | "capture-fullpage" | "save-image" | "save-selection"
+
+// What the overlay gets, the node itself is found from the last contextmenu event in the page
+export type ContextMenuRequest = {
+  action: ContextMenuAction
+  srcUrl: string | null // save-image
+  selectionText: string | null // save-selection, whitespace collapsed by Chrome
+  frameId: number // 0 when the click was in the top document
+}
+
+type MenuContext = chrome.contextMenus.CreateProperties["contexts"]
+
+const ON_PAGE: MenuContext = ["page", "frame", "link", "image", "video", "audio", "editable", "selection"]
+
+const MENU_ITEMS: Array<{ id: ContextMenuAction; title: string; contexts: MenuContext }> = [
+  { id: "snip-element", title: "Snip this element", contexts: ON_PAGE },
+  { id: "capture-visible", title: "Capture visible area", contexts: ON_PAGE },
+  { id: "capture-fullpage", title: "Capture full page", contexts: ON_PAGE },
+  { id: "save-image", title: "Save this image as reference", contexts: ["image"] },
+  { id: "save-selection", title: "Save selection as text reference", contexts: ["selection"] }
+]
+
+// --- Background side ---
+
+export function initContextMenus() {
+  // Menu items persist with the extension, they only need creating on install and update
+  chrome.runtime.onInstalled.addListener(() => {
+    chrome.contextMenus.removeAll(() => {
+      for (const item of MENU_ITEMS) chrome.contextMenus.create(item)
+    })
+  })
+
+  chrome.contextMenus.onClicked.addListener((info, tab) => {
+    if (!tab?.id) return
+    const request: ContextMenuRequest = {
+      action: info.menuItemId as ContextMenuAction,
+      srcUrl: info.srcUrl ?? null,
+      selectionText: info.selectionText ?? null,
+      frameId: info.frameId ?? 0
+    }
+    // The overlay only runs in the top frame
+    chrome.tabs.sendMessage(tab.id, { type: "CONTEXT_MENU", ...request }, { frameId: 0 }).catch((error) => {
+      console.warn("⚠️ No overlay for", request.action, "in:", error)
+    })
+  })
+}
@@ -0,0 +1,17 @@
+// src/lib/data-url.ts
+// Blob ↔ data URL, shared by the background worker, the content script and the offscreen
+// document. Kept apart from lib/capture.ts, which needs chrome.tabs when it loads.
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const res = await fetch(dataUrl)
+  return res.blob()
+}
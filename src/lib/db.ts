@@ -0,0 +1,67 @@
+// src/lib/db.ts
+// Tiny promise wrapper around the extension's IndexedDB database.
+// All stores are created here so schema upgrades live in one place.
+
+const DB_NAME = "grebref"
+const DB_VERSION = 3
+
+export const UPLOADS_STORE = "uploads"
+export const CLIPS_STORE = "clips"
+export const AUTH_STORE = "auth"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      // Fall through so every upgrade step runs for older databases
+      switch (event.oldVersion) {
+        case 0:
+          db.createObjectStore(UPLOADS_STORE, { keyPath: "id" })
+        case 1:
+          db.createObjectStore(CLIPS_STORE, { keyPath: "id" })
+        case 2:
+          db.createObjectStore(AUTH_STORE, { keyPath: "profileId" })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Runs a single request against a store and resolves with its result once the
+ * transaction has committed.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  const tx = db.transaction(storeName, mode)
+  const result = requestToPromise(run(tx.objectStore(storeName)))
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+  return result
+}
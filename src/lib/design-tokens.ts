@@ -0,0 +1,304 @@
+// src/lib/design-tokens.ts
+// Design tokens of a captured subtree or lasso region: the colours, type, spacing, radii
+// and shadows actually used there, clustered into a palette and a type scale, plus every
+// custom property defined in the page's readable stylesheets. Sent as `context.design`.
+
+import { elementsInScope, type ElementScope } from "~lib/dom-picker"
+
+export type ColorRole = "text" | "background" | "border" | "fill" | "stroke"
+
+export type ColorToken = {
+  hex: string // #rrggbb, #rrggbbaa when translucent
+  count: number // uses, including the colours clustered into this one
+  roles: ColorRole[]
+  variables: string[] // custom properties that resolve to one of the clustered colours
+}
+
+export type TypeStep = {
+  fontSize: number // px
+  count: number
+  fontWeights: number[]
+  lineHeights: string[]
+  fontFamilies: string[]
+}
+
+export type Measure = { value: string; count: number }
+
+export type DesignTokens = {
+  palette: ColorToken[] // most used first
+  primaryColor: string | null // most used saturated background, fill or border colour
+  typeScale: TypeStep[] // largest first
+  typeScaleRatio: number | null // median ratio between neighbouring steps
+  fontFamilies: Measure[]
+  spacing: Measure[] // margins, paddings and gaps
+  spacingUnit: number | null // 8, 4 or 2 when most spacing values are multiples of it
+  radii: Measure[]
+  shadows: Measure[]
+  customProperties: Record<string, string> // resolved on :root where possible, else as declared
+  elementCount: number
+}
+
+type Rgba = [r: number, g: number, b: number, a: number]
+
+const MAX_ELEMENTS = 3000
+const CLUSTER_DISTANCE = 8 // CIE76 ΔE below which two colours count as one
+const SATURATED_CHROMA = 20
+const MAX_PALETTE = 24
+const MAX_MEASURES = 12
+
+const SPACING_PROPERTIES = [
+  "margin-top", "margin-right", "margin-bottom", "margin-left",
+  "padding-top", "padding-right", "padding-bottom", "padding-left",
+  "row-gap", "column-gap"
+]
+
+const BORDER_SIDES = ["top", "right", "bottom", "left"]
+
+export function extractDesignTokens(scope: ElementScope, ignore: (el: Element) => boolean = () => false): DesignTokens {
+  const colors = new Map<string, { rgba: Rgba; count: number; roles: Set<ColorRole> }>()
+  const steps = new Map<number, { count: number; weights: Set<number>; lineHeights: Set<string>; families: Set<string> }>()
+  const families = new Map<string, number>()
+  const spacing = new Map<string, number>()
+  const radii = new Map<string, number>()
+  const shadows = new Map<string, number>()
+  const roots = new Set<Document | ShadowRoot>([document])
+
+  const addColor = (value: string, role: ColorRole) => {
+    const rgba = parseColor(value)
+    if (!rgba) return
+    const hex = toHex(rgba)
+    const entry = colors.get(hex) ?? { rgba, count: 0, roles: new Set<ColorRole>() }
+    entry.count++
+    entry.roles.add(role)
+    colors.set(hex, entry)
+  }
+
+  const elements = elementsInScope(scope, MAX_ELEMENTS, ignore)
+  for (const el of elements) {
+    roots.add(el.getRootNode() as Document | ShadowRoot)
+    const cs = el.ownerDocument.defaultView!.getComputedStyle(el)
+    if (cs.visibility === "hidden") continue
+
+    const hasText = Array.from(el.childNodes).some((node) => node.nodeType === Node.TEXT_NODE && node.textContent!.trim())
+    if (hasText) {
+      addColor(cs.color, "text")
+      const size = Math.round(parseFloat(cs.fontSize) * 2) / 2
+      const family = cs.fontFamily.split(",")[0].trim().replace(/^["']|["']$/g, "")
+      const step = steps.get(size) ?? { count: 0, weights: new Set<number>(), lineHeights: new Set<string>(), families: new Set<string>() }
+      step.count++
+      step.weights.add(Number(cs.fontWeight))
+      step.lineHeights.add(cs.lineHeight)
+      step.families.add(family)
+      steps.set(size, step)
+      bump(families, family)
+    }
+
+    addColor(cs.backgroundColor, "background")
+    for (const side of BORDER_SIDES) {
+      if (parseFloat(cs.getPropertyValue(`border-${side}-width`)) > 0 && cs.getPropertyValue(`border-${side}-style`) !== "none") {
+        addColor(cs.getPropertyValue(`border-${side}-color`), "border")
+      }
+    }
+    if (el.namespaceURI === "http://www.w3.org/2000/svg") {
+      addColor(cs.fill, "fill")
+      addColor(cs.stroke, "stroke")
+    }
+
+    for (const property of SPACING_PROPERTIES) {
+      const px = parseFloat(cs.getPropertyValue(property))
+      if (px > 0) bump(spacing, `${Math.round(px)}px`)
+    }
+    const radius = cs.getPropertyValue("border-radius")
+    if (radius && !/^0px( 0px)*$/.test(radius)) bump(radii, radius)
+    if (cs.boxShadow !== "none") bump(shadows, cs.boxShadow)
+    if (cs.textShadow !== "none") bump(shadows, cs.textShadow)
+  }
+
+  const customProperties = collectCustomProperties(roots)
+  const palette = clusterColors(colors, customProperties)
+  const typeScale = [...steps.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([fontSize, step]) => ({
+      fontSize,
+      count: step.count,
+      fontWeights: [...step.weights].sort((a, b) => a - b),
+      lineHeights: [...step.lineHeights],
+      fontFamilies: [...step.families]
+    }))
+
+  return {
+    palette,
+    primaryColor: primaryColor(palette),
+    typeScale,
+    typeScaleRatio: scaleRatio(typeScale.map((step) => step.fontSize)),
+    fontFamilies: topMeasures(families),
+    spacing: topMeasures(spacing),
+    spacingUnit: spacingUnit(spacing),
+    radii: topMeasures(radii),
+    shadows: topMeasures(shadows),
+    customProperties,
+    elementCount: elements.length
+  }
+}
+
+/**
+ * Every custom property declared in the stylesheets of `roots` (including @import,
+ * @media and @layer blocks and adopted sheets). Cross-origin sheets without CORS
+ * can't be read and are skipped.
+ */
+function collectCustomProperties(roots: Iterable<Document | ShadowRoot>): Record<string, string> {
+  const declared = new Map<string, string>()
+  const visit = (rules: CSSRuleList) => {
+    for (const rule of Array.from(rules)) {
+      const style = (rule as CSSStyleRule).style
+      if (style) {
+        for (let i = 0; i < style.length; i++) {
+          const name = style[i]
+          if (name.startsWith("--") && !declared.has(name)) declared.set(name, style.getPropertyValue(name).trim())
+        }
+      }
+      const imported = (rule as CSSImportRule).styleSheet
+      const nested = imported ? readRules(imported) : (rule as CSSGroupingRule).cssRules
+      if (nested) visit(nested)
+    }
+  }
+  for (const root of roots) {
+    for (const sheet of [...Array.from(root.styleSheets), ...(root.adoptedStyleSheets ?? [])]) {
+      const rules = readRules(sheet)
+      if (rules) visit(rules)
+    }
+  }
+
+  const rootStyle = getComputedStyle(document.documentElement)
+  return Object.fromEntries([...declared].map(([name, value]) => [name, rootStyle.getPropertyValue(name).trim() || value]))
+}
+
+function readRules(sheet: CSSStyleSheet): CSSRuleList | null {
+  try {
+    return sheet.cssRules
+  } catch {
+    return null
+  }
+}
+
+// Greedy clustering, most used colour first, so every cluster is named after its most common member
+function clusterColors(colors: Map<string, { rgba: Rgba; count: number; roles: Set<ColorRole> }>, customProperties: Record<string, string>): ColorToken[] {
+  const variablesByHex = new Map<string, string[]>()
+  for (const [name, value] of Object.entries(customProperties)) {
+    const rgba = CSS.supports("color", value) ? parseColor(value) : null
+    if (!rgba) continue
+    const hex = toHex(rgba)
+    variablesByHex.set(hex, [...(variablesByHex.get(hex) ?? []), name])
+  }
+
+  const clusters: Array<ColorToken & { lab: number[]; alpha: number; roleSet: Set<ColorRole> }> = []
+  const sorted = [...colors.entries()].sort(([, a], [, b]) => b.count - a.count)
+  for (const [hex, { rgba, count, roles }] of sorted) {
+    const lab = toLab(rgba)
+    const cluster = clusters.find((c) => Math.abs(c.alpha - rgba[3]) < 0.1 && deltaE(c.lab, lab) < CLUSTER_DISTANCE)
+    const variables = variablesByHex.get(hex) ?? []
+    if (cluster) {
+      cluster.count += count
+      roles.forEach((role) => cluster.roleSet.add(role))
+      cluster.variables.push(...variables.filter((v) => !cluster.variables.includes(v)))
+    } else {
+      clusters.push({ hex, count, roles: [], variables: [...variables], lab, alpha: rgba[3], roleSet: new Set(roles) })
+    }
+  }
+
+  return clusters
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_PALETTE)
+    .map(({ hex, count, variables, roleSet }) => ({ hex, count, roles: [...roleSet], variables }))
+}
+
+function primaryColor(palette: ColorToken[]): string | null {
+  const saturated = palette.filter((color) => {
+    const [, a, b] = toLab(parseColor(color.hex)!)
+    return Math.hypot(a, b) > SATURATED_CHROMA
+  })
+  const accent = saturated.find((color) => color.roles.some((role) => role !== "text")) ?? saturated[0]
+  return accent?.hex ?? null
+}
+
+function scaleRatio(sizes: number[]): number | null {
+  if (sizes.length < 2) return null
+  const ratios = sizes.slice(1).map((size, i) => sizes[i] / size).sort((a, b) => a - b)
+  return Math.round(ratios[Math.floor(ratios.length / 2)] * 1000) / 1000
+}
+
+function spacingUnit(spacing: Map<string, number>): number | null {
+  const total = [...spacing.values()].reduce((sum, count) => sum + count, 0)
+  if (!total) return null
+  for (const unit of [8, 4, 2]) {
+    const matching = [...spacing].filter(([value]) => parseFloat(value) % unit === 0).reduce((sum, [, count]) => sum + count, 0)
+    if (matching / total >= 0.8) return unit
+  }
+  return null
+}
+
+function bump(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) ?? 0) + 1)
+}
+
+function topMeasures(counts: Map<string, number>): Measure[] {
+  return [...counts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_MEASURES)
+    .map(([value, count]) => ({ value, count }))
+}
+
+// --- Colour helpers ---
+
+let probe: CanvasRenderingContext2D | null = null
+const PROBE_SENTINEL = "rgba(1, 2, 3, 0.01)"
+const parsedColors = new Map<string, Rgba | null>()
+
+// Computed colours can be rgb(), color(), oklch() and more; a 1×1 canvas turns them all into sRGB
+function parseColor(value: string): Rgba | null {
+  if (!value || value === "none" || value === "transparent" || value.startsWith("url(")) return null
+  if (parsedColors.has(value)) return parsedColors.get(value)!
+  if (!probe) {
+    const canvas = document.createElement("canvas")
+    canvas.width = canvas.height = 1
+    probe = canvas.getContext("2d", { willReadFrequently: true })!
+  }
+  probe.clearRect(0, 0, 1, 1)
+  // The canvas ignores values it can't parse (an unresolved var() for one) and keeps the
+  // previous colour. The sentinel is too transparent to count, so matching it means rejected.
+  probe.fillStyle = PROBE_SENTINEL
+  const sentinel = probe.fillStyle
+  probe.fillStyle = value
+  if (probe.fillStyle === sentinel) {
+    parsedColors.set(value, null)
+    return null
+  }
+  probe.fillRect(0, 0, 1, 1)
+  const [r, g, b, a] = probe.getImageData(0, 0, 1, 1).data
+  const rgba: Rgba | null = a < 13 ? null : [r, g, b, Math.round((a / 255) * 100) / 100] // under 5% opacity isn't a colour anyone sees
+  parsedColors.set(value, rgba)
+  return rgba
+}
+
+function toHex([r, g, b, a]: Rgba) {
+  const hex = (n: number) => n.toString(16).padStart(2, "0")
+  return `#${hex(r)}${hex(g)}${hex(b)}${a < 1 ? hex(Math.round(a * 255)) : ""}`
+}
+
+// sRGB → CIELAB (D65)
+function toLab([r, g, b]: Rgba): number[] {
+  const linear = (c: number) => {
+    c /= 255
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+  }
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)]
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116)
+  const x = f((lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047)
+  const y = f(lr * 0.2126 + lg * 0.7152 + lb * 0.0722)
+  const z = f((lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883)
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)]
+}
+
+function deltaE(a: number[], b: number[]) {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+}
@@ -0,0 +1,271 @@
+// src/lib/dom-assets.ts
+// Makes DOM snippets self-contained: images, srcset candidates, CSS url()s (backgrounds,
+// web fonts, masks) and SVG <use> references are fetched and inlined as data URLs.
+// The content script does the rewriting; fetching goes through the background worker
+// (FETCH_ASSET), which has host permissions and isn't bound by the page's CORS.
+
+import { blobToDataUrl } from "~lib/data-url"
+import { request } from "~lib/protocol"
+
+export type AssetSettings = {
+  embedAssets: boolean
+  maxAssetKb: number // larger assets keep their URL
+  maxTotalMb: number // budget for one snippet
+}
+
+export type AssetReport = {
+  inlined: number
+  bytes: number
+  failed: Array<{ url: string; reason: string }>
+}
+
+const STORAGE_KEY = "assetSettings"
+
+export const DEFAULT_ASSET_SETTINGS: AssetSettings = {
+  embedAssets: false,
+  maxAssetKb: 2048,
+  maxTotalMb: 15
+}
+
+const FETCH_CONCURRENCY = 4
+
+const URL_ATTRIBUTES: Array<[selector: string, attribute: string]> = [
+  ["img[src]", "src"],
+  ["source[src]", "src"],
+  ["video[poster]", "poster"],
+  ["input[type=image][src]", "src"],
+  ["image[href]", "href"],
+  ["image[xlink\\:href]", "xlink:href"]
+]
+
+const CSS_URL = /url\(\s*(["']?)([^"')]+)\1\s*\)/g
+
+export async function getAssetSettings(): Promise<AssetSettings> {
+  const stored = await chrome.storage.sync.get(STORAGE_KEY)
+  return { ...DEFAULT_ASSET_SETTINGS, ...(stored[STORAGE_KEY] as Partial<AssetSettings> | undefined) }
+}
+
+export function saveAssetSettings(settings: AssetSettings) {
+  return chrome.storage.sync.set({ [STORAGE_KEY]: settings })
+}
+
+/**
+ * Background side of FETCH_ASSET. Only public http(s) hosts are fetched, without cookies:
+ * the URL comes from the page, and the worker's host permissions must not let a page read
+ * the user's intranet or localhost. The size is checked against Content-Length first so
+ * huge files are never downloaded.
+ */
+export async function fetchAsset(url: string, maxBytes: number): Promise<{ dataUrl: string; bytes: number }> {
+  if (!/^https?:/i.test(url)) throw new Error("unsupported URL")
+  if (!isPublicHost(new URL(url).hostname)) throw new Error("not a public host")
+  const res = await fetch(url, { credentials: "omit" })
+  // A redirect is followed before we see it, at least never hand its body back
+  if (!isPublicHost(new URL(res.url || url).hostname)) throw new Error("redirected to a non-public host")
+  if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  if (Number(res.headers.get("content-length")) > maxBytes) throw new Error("too large")
+  const blob = await res.blob()
+  if (blob.size > maxBytes) throw new Error("too large")
+  return { dataUrl: await blobToDataUrl(blob), bytes: blob.size }
+}
+
+// Loopback, private, link-local and other non-routable addresses, plus local-only names.
+// `URL` has already normalized numeric IPv4 forms like 2130706433 or 0x7f.1
+function isPublicHost(hostname: string) {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "")
+  if (!host.includes(".") && !host.includes(":")) return false // "localhost", intranet names
+  if (/(^|\.)(localhost|local|internal|intranet|lan|home\.arpa)$/.test(host)) return false
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+    return !(
+      a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19))
+    )
+  }
+  if (host.includes(":")) {
+    // IPv4-mapped addresses are judged by their IPv4 part
+    const mapped = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+    if (mapped) return isPublicHost(mapped[1])
+    if (host.startsWith("::ffff:")) return false // hex form, not worth decoding
+    return !(host === "::" || host === "::1" || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || /^ff/.test(host))
+  }
+  return true
+}
+
+/**
+ * Inlines the assets referenced by serialized snippet HTML. Assets that fail, or don't
+ * fit the limits, keep their absolute URL and are listed in the report.
+ */
+export async function embedAssets(html: string, settings: AssetSettings): Promise<{ html: string; report: AssetReport }> {
+  const template = document.createElement("template")
+  template.innerHTML = html
+  const root = template.content
+
+  await inlineSvgUses(root, settings)
+
+  const styles = Array.from(root.querySelectorAll("style"))
+  styles.forEach((style) => { style.textContent = firstFontSource(style.textContent ?? "") })
+  const styled = Array.from(root.querySelectorAll<HTMLElement>("[style]"))
+
+  // Collect every URL first, so each asset is fetched once however often it is used
+  const urls = new Set<string>()
+  const add = (url: string) => {
+    const resolved = resolveUrl(url)
+    if (resolved && !resolved.startsWith("data:")) urls.add(resolved)
+  }
+  for (const [selector, attribute] of URL_ATTRIBUTES) {
+    root.querySelectorAll(selector).forEach((el) => add(el.getAttribute(attribute)!))
+  }
+  root.querySelectorAll("[srcset]").forEach((el) => parseSrcset(el.getAttribute("srcset")!).forEach((c) => add(c.url)))
+  for (const el of [...styles, ...styled]) {
+    const css = el instanceof HTMLStyleElement ? el.textContent ?? "" : el.getAttribute("style")!
+    for (const m of css.matchAll(CSS_URL)) add(m[2])
+  }
+
+  const { inlined, report } = await fetchAll([...urls], settings)
+  const swap = (url: string) => inlined.get(resolveUrl(url) ?? "") ?? url
+
+  for (const [selector, attribute] of URL_ATTRIBUTES) {
+    root.querySelectorAll(selector).forEach((el) => el.setAttribute(attribute, swap(el.getAttribute(attribute)!)))
+  }
+  root.querySelectorAll("[srcset]").forEach((el) => {
+    const candidates = parseSrcset(el.getAttribute("srcset")!)
+    el.setAttribute("srcset", candidates.map((c) => [swap(c.url), c.descriptor].filter(Boolean).join(" ")).join(", "))
+  })
+  const swapCss = (css: string) => css.replace(CSS_URL, (_match, _quote, url: string) => `url("${swap(url)}")`)
+  styles.forEach((style) => { style.textContent = swapCss(style.textContent ?? "") })
+  styled.forEach((el) => el.setAttribute("style", swapCss(el.getAttribute("style")!)))
+
+  return { html: template.innerHTML, report }
+}
+
+async function fetchAll(urls: string[], settings: AssetSettings) {
+  const inlined = new Map<string, string>()
+  const report: AssetReport = { inlined: 0, bytes: 0, failed: [] }
+  const maxBytes = settings.maxAssetKb * 1024
+  const budget = settings.maxTotalMb * 1024 * 1024
+  const queue = [...urls]
+
+  const worker = async () => {
+    for (let url = queue.shift(); url; url = queue.shift()) {
+      if (report.bytes >= budget) {
+        report.failed.push({ url, reason: "snippet size limit reached" })
+        continue
+      }
+      try {
+        const asset = await request("FETCH_ASSET", { url, maxBytes })
+        if (report.bytes + asset.bytes > budget) {
+          report.failed.push({ url, reason: "snippet size limit reached" })
+        } else {
+          inlined.set(url, asset.dataUrl)
+          report.inlined++
+          report.bytes += asset.bytes
+        }
+      } catch (error) {
+        report.failed.push({ url, reason: error.message })
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: FETCH_CONCURRENCY }, worker))
+
+  if (report.failed.length) console.warn("⚠️ Assets that could not be embedded:", report.failed)
+  return { inlined, report }
+}
+
+/**
+ * <use> only works with same-document references once the snippet leaves the page.
+ * Symbols from the page's own sprite are copied in, external sprites are fetched and
+ * the referenced symbol is copied from them. Either way the href becomes `#id`.
+ */
+async function inlineSvgUses(root: DocumentFragment, settings: AssetSettings) {
+  const uses = Array.from(root.querySelectorAll("use"))
+  if (!uses.length) return
+
+  const defs = document.createElementNS("http://www.w3.org/2000/svg", "svg")
+  defs.setAttribute("aria-hidden", "true")
+  defs.setAttribute("style", "position:absolute;width:0;height:0;overflow:hidden")
+  const sprites = new Map<string, Promise<Document | null>>()
+
+  for (const use of uses) {
+    const href = use.getAttribute("href") ?? use.getAttribute("xlink:href")
+    if (!href) continue
+    const hash = href.indexOf("#")
+    const id = hash >= 0 ? href.slice(hash + 1) : ""
+    if (!id) continue
+    const inSnippet = (target: string) => root.getElementById(target) ?? defs.querySelector(`[id="${CSS.escape(target)}"]`)
+
+    let localId = id
+    if (hash > 0) {
+      const url = resolveUrl(href.slice(0, hash))
+      if (!url) continue
+      if (!sprites.has(url)) sprites.set(url, fetchSprite(url, settings))
+      const symbol = (await sprites.get(url))?.getElementById(id)
+      if (!symbol) continue
+      localId = `${id}-${Math.abs(hashCode(url)).toString(36)}`
+      if (!inSnippet(localId)) {
+        const copy = document.importNode(symbol, true)
+        copy.setAttribute("id", localId)
+        defs.appendChild(copy)
+      }
+    } else if (!inSnippet(id)) {
+      const symbol = document.getElementById(id)
+      if (!symbol) continue
+      defs.appendChild(symbol.cloneNode(true))
+    }
+
+    use.removeAttribute("xlink:href")
+    use.setAttribute("href", `#${localId}`)
+  }
+
+  if (defs.childNodes.length) root.prepend(defs)
+}
+
+async function fetchSprite(url: string, settings: AssetSettings): Promise<Document | null> {
+  let dataUrl: string
+  try {
+    dataUrl = (await request("FETCH_ASSET", { url, maxBytes: settings.maxAssetKb * 1024 })).dataUrl
+  } catch (error) {
+    console.warn("⚠️ Could not fetch SVG sprite:", url, error.message)
+    return null
+  }
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1)
+  const text = new TextDecoder().decode(Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)))
+  return new DOMParser().parseFromString(text, "image/svg+xml")
+}
+
+// Browsers try @font-face sources in order, the first one (usually woff2) is all we need
+function firstFontSource(css: string) {
+  return css.replace(/@font-face\s*\{[^}]*\}/g, (rule) =>
+    rule.replace(/src:\s*([^;}]+)/, (src, list: string) => {
+      const first = list.split(/,(?![^(]*\))/)[0]
+      return first ? `src: ${first.trim()}` : src
+    }))
+}
+
+// Candidates are split on ", " only, URLs with bare commas in them (image CDNs) stay intact
+function parseSrcset(srcset: string): Array<{ url: string; descriptor: string }> {
+  return srcset
+    .split(/,\s+/)
+    .map((candidate) => candidate.trim().split(/\s+/))
+    .filter(([url]) => !!url)
+    .map(([url, descriptor = ""]) => ({ url, descriptor }))
+}
+
+function resolveUrl(url: string): string | null {
+  try {
+    return new URL(url.trim(), location.href).href
+  } catch {
+    return null
+  }
+}
+
+function hashCode(s: string) {
+  let hash = 0
+  for (let i = 0; i < s.length; i++) hash = (hash * 31 + s.charCodeAt(i)) | 0
+  return hash
+}
@@ -0,0 +1,265 @@
+// src/lib/dom-picker.ts
+// Hit testing for DOM mode that reaches into open shadow roots and same-origin iframes,
+// which document.elementFromPoint stops at. Coordinates are always top-window client
+// coordinates; rects of elements in iframes are translated back to them.
+// Also keyboard tree navigation, breadcrumb labels and stable selectors for picked elements.
+
+/**
+ * The innermost element at (x, y). `ignore` skips elements in the top document,
+ * such as our own overlay host.
+ */
+export function deepElementFromPoint(x: number, y: number, ignore: (el: Element) => boolean = () => false): Element | null {
+  let el = document.elementsFromPoint(x, y).find((candidate) => !ignore(candidate)) ?? null
+
+  while (el) {
+    const shadow = el.shadowRoot
+    if (shadow) {
+      const inner = shadow.elementsFromPoint(x, y).find((candidate) => candidate !== el && shadow.contains(candidate))
+      if (inner) {
+        el = inner
+        continue
+      }
+    }
+
+    const doc = frameDocument(el)
+    if (doc) {
+      const offset = frameContentOffset(el as HTMLIFrameElement)
+      x -= offset.x
+      y -= offset.y
+      const inner = doc.elementFromPoint(x, y)
+      if (inner) {
+        el = inner
+        continue
+      }
+    }
+    break
+  }
+  return el
+}
+
+// The document of a same-origin iframe, null for anything else
+export function frameDocument(el: Element): Document | null {
+  if (el.localName !== "iframe" && el.localName !== "frame") return null
+  try {
+    return (el as HTMLIFrameElement).contentDocument
+  } catch {
+    return null
+  }
+}
+
+// Bounding rect in top-window client coordinates, also for elements inside iframes
+export function rectInTopWindow(el: Element): DOMRect {
+  const rect = el.getBoundingClientRect()
+  let x = rect.left
+  let y = rect.top
+  let frame = frameOf(el)
+  while (frame) {
+    const offset = frameContentOffset(frame)
+    x += offset.x
+    y += offset.y
+    frame = frameOf(frame)
+  }
+  return new DOMRect(x, y, rect.width, rect.height)
+}
+
+/**
+ * The innermost element under the centre of a lasso region that contains the whole region,
+ * so image captures can be re-located by selector too.
+ */
+export function elementCoveringRegion(region: { x: number; y: number; w: number; h: number }, ignore: (el: Element) => boolean = () => false): Element | null {
+  let el = deepElementFromPoint(region.x + region.w / 2, region.y + region.h / 2, ignore)
+  for (; el; el = composedParent(el)) {
+    const rect = rectInTopWindow(el)
+    // A pixel of slack, lassos are drawn by hand
+    if (rect.left <= region.x + 1 && rect.top <= region.y + 1 && rect.right >= region.x + region.w - 1 && rect.bottom >= region.y + region.h - 1) return el
+  }
+  return null
+}
+
+// A picked subtree, or a lasso region in top-window client coordinates
+export type ElementScope = { root: Element } | { rect: { x: number; y: number; w: number; h: number } }
+
+const MAX_VISITED = 20000 // region scopes walk the whole page to find what overlaps
+
+/**
+ * The composed subtree of `root`, or every element overlapping `rect`, in document order,
+ * at most `limit` of them.
+ */
+export function elementsInScope(scope: ElementScope, limit: number, ignore: (el: Element) => boolean = () => false): Element[] {
+  const region = "rect" in scope ? scope.rect : null
+  const found: Element[] = []
+  const stack: Element[] = ["root" in scope ? scope.root : document.body]
+  let visited = 0
+  while (stack.length && found.length < limit && visited++ < MAX_VISITED) {
+    const el = stack.pop()!
+    if (ignore(el)) continue
+    if (region) {
+      // Children can overflow their parent, so a miss doesn't end the walk here
+      const r = rectInTopWindow(el)
+      const overlaps = r.width > 0 && r.height > 0 && r.right > region.x && r.left < region.x + region.w && r.bottom > region.y && r.top < region.y + region.h
+      if (overlaps) found.push(el)
+    } else {
+      found.push(el)
+    }
+    stack.push(...composedChildren(el).reverse())
+  }
+  return found
+}
+
+function frameOf(el: Element): HTMLIFrameElement | null {
+  try {
+    return (el.ownerDocument.defaultView?.frameElement as HTMLIFrameElement | null) ?? null
+  } catch {
+    return null
+  }
+}
+
+// Where the iframe's viewport starts, relative to the client area it sits in: its box minus border and padding
+function frameContentOffset(frame: HTMLIFrameElement) {
+  const rect = frame.getBoundingClientRect()
+  const cs = frame.ownerDocument.defaultView!.getComputedStyle(frame)
+  return {
+    x: rect.left + frame.clientLeft + parseFloat(cs.paddingLeft),
+    y: rect.top + frame.clientTop + parseFloat(cs.paddingTop)
+  }
+}
+
+// --- Tree navigation, following the same composed tree the picker hits ---
+
+export function composedParent(el: Element): Element | null {
+  if (el.parentElement) return el.parentElement
+  const root = el.getRootNode()
+  if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE) return (root as ShadowRoot).host
+  return frameOf(el)
+}
+
+export function composedChildren(el: Element): Element[] {
+  if (el.shadowRoot) return Array.from(el.shadowRoot.children).filter((child) => !NON_VISUAL.has(child.localName))
+  const doc = frameDocument(el)
+  if (doc) return doc.body ? [doc.body] : []
+  return Array.from(el.children).filter((child) => !NON_VISUAL.has(child.localName))
+}
+
+export function composedSibling(el: Element, direction: -1 | 1): Element | null {
+  const parent = composedParent(el)
+  let siblings = parent ? composedChildren(parent) : []
+  // Light DOM children of a shadow host aren't in the host's composed children
+  if (!siblings.includes(el)) siblings = Array.from(el.parentElement?.children ?? [])
+  return siblings[siblings.indexOf(el) + direction] ?? null
+}
+
+// Root first, ending with `el`
+export function ancestorChain(el: Element): Element[] {
+  const chain: Element[] = []
+  for (let node: Element | null = el; node; node = composedParent(node)) chain.unshift(node)
+  return chain
+}
+
+// tag#id.class.class, for the breadcrumb and the outline label
+export function describeElement(el: Element): string {
+  const id = el.id ? `#${el.id}` : ""
+  const classes = Array.from(el.classList).slice(0, 3).map((c) => `.${c}`).join("")
+  return `${el.localName}${id}${classes}`
+}
+
+/**
+ * A CSS selector that matches only `el` and survives re-renders: ids, test attributes and
+ * readable class names are preferred over positions. Each shadow root or iframe the element
+ * sits in adds a segment, joined with " >>> " (outermost first).
+ */
+export function uniqueSelector(el: Element): string {
+  const segments: string[] = []
+  let current: Element | null = el
+  while (current) {
+    const root = current.getRootNode() as Document | ShadowRoot
+    segments.unshift(selectorInRoot(current, root))
+    current = root.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? (root as ShadowRoot).host : frameOf(current)
+  }
+  return segments.join(" >>> ")
+}
+
+// Resolves a selector from uniqueSelector, descending into shadow roots and iframes
+export function querySelectorDeep(selector: string): Element | null {
+  let root: Document | ShadowRoot = document
+  let el: Element | null = null
+  for (const segment of selector.split(" >>> ")) {
+    try {
+      el = root.querySelector(segment)
+    } catch {
+      return null
+    }
+    if (!el) return null
+    const inner = el.shadowRoot ?? frameDocument(el)
+    if (inner) root = inner
+  }
+  return el
+}
+
+/**
+ * `el` and its siblings that look like the same component: same tag, same readable
+ * classes and the same child element structure. Used for "select all similar".
+ */
+export function similarSiblings(el: Element): Element[] {
+  const signature = structureSignature(el)
+  const siblings = el.parentElement ? Array.from(el.parentElement.children) : [el]
+  return siblings.filter((sibling) => sibling === el || structureSignature(sibling) === signature)
+}
+
+function structureSignature(el: Element) {
+  const classes = Array.from(el.classList).filter((c) => !UNSTABLE_NAME.test(c)).sort().join(".")
+  // Distinct child tags rather than the exact sequence, so an optional badge doesn't split a list
+  const children = [...new Set(Array.from(el.children).map((child) => child.localName))].sort().join(",")
+  return `${el.localName}.${classes}[${children}]`
+}
+
+const NON_VISUAL = new Set(["script", "style", "link", "meta", "template", "noscript"])
+
+const TEST_ATTRIBUTES = ["data-testid", "data-test", "data-qa", "data-cy"]
+
+// Generated names from CSS-in-JS and CSS modules change between builds
+const UNSTABLE_NAME = /\d{3,}|^(css|sc|jsx|emotion|svelte)-|_[a-zA-Z0-9]{5,}$|^:|[^\w-]/
+
+function selectorInRoot(el: Element, root: Document | ShadowRoot): string {
+  const steps: string[] = []
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    const anchor = anchorStep(node, root)
+    steps.unshift(anchor ?? positionalStep(node))
+    const selector = steps.join(" > ")
+    if (anchor || matchesOnly(root, selector, el)) return selector
+  }
+  return steps.join(" > ")
+}
+
+// An id or test attribute that is unique in the root
+function anchorStep(el: Element, root: Document | ShadowRoot): string | null {
+  if (el.id && !UNSTABLE_NAME.test(el.id)) {
+    const selector = `#${CSS.escape(el.id)}`
+    if (matchesOnly(root, selector, el)) return selector
+  }
+  for (const attribute of TEST_ATTRIBUTES) {
+    const value = el.getAttribute(attribute)
+    if (!value) continue
+    const selector = `[${attribute}="${CSS.escape(value)}"]`
+    if (matchesOnly(root, selector, el)) return selector
+  }
+  return null
+}
+
+// Tag plus readable classes, with :nth-of-type only when siblings would still match
+function positionalStep(el: Element): string {
+  const classes = Array.from(el.classList).filter((c) => !UNSTABLE_NAME.test(c)).slice(0, 2)
+  const step = CSS.escape(el.localName) + classes.map((c) => `.${CSS.escape(c)}`).join("")
+  const siblings = el.parentElement ? Array.from(el.parentElement.children) : []
+  if (siblings.filter((sibling) => sibling.matches(step)).length <= 1) return step
+  const sameTag = siblings.filter((sibling) => sibling.localName === el.localName)
+  return `${step}:nth-of-type(${sameTag.indexOf(el) + 1})`
+}
+
+function matchesOnly(root: Document | ShadowRoot, selector: string, el: Element) {
+  try {
+    const matches = root.querySelectorAll(selector)
+    return matches.length === 1 && matches[0] === el
+  } catch {
+    return false
+  }
+}
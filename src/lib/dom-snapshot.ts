@@ -0,0 +1,307 @@
+// src/lib/dom-snapshot.ts
+// Serializes a DOM subtree into self-contained HTML for DOM snippets. Every computed
+// property that differs from the browser default is captured, identical declarations
+// share a generated class, ::before/::after become real nodes, and the @font-face and
+// @keyframes rules the snippet uses are carried along. Open shadow roots and same-origin
+// iframes are flattened into the snippet.
+
+import { frameDocument } from "~lib/dom-picker"
+
+const CLASS_PREFIX = "grx-"
+
+// Properties that inherit: a child only needs them when its value differs from the parent's
+const INHERITED = new Set([
+  "border-collapse", "border-spacing", "caption-side", "color", "color-scheme", "cursor", "direction", "empty-cells",
+  "font", "font-family", "font-feature-settings", "font-kerning", "font-optical-sizing", "font-size", "font-size-adjust",
+  "font-stretch", "font-style", "font-synthesis", "font-variant", "font-variant-caps", "font-variant-east-asian",
+  "font-variant-ligatures", "font-variant-numeric", "font-variation-settings", "font-weight", "hyphens", "letter-spacing",
+  "line-break", "line-height", "list-style", "list-style-image", "list-style-position", "list-style-type", "orphans",
+  "overflow-wrap", "paint-order", "pointer-events", "quotes", "tab-size", "text-align", "text-align-last", "text-indent",
+  "text-rendering", "text-shadow", "text-size-adjust", "text-transform", "text-underline-position", "visibility",
+  "white-space", "widows", "word-break", "word-spacing", "writing-mode", "-webkit-font-smoothing",
+  "-webkit-text-fill-color", "-webkit-text-stroke-color", "-webkit-text-stroke-width", "fill", "fill-opacity",
+  "fill-rule", "stroke", "stroke-dasharray", "stroke-dashoffset", "stroke-linecap", "stroke-linejoin", "stroke-opacity",
+  "stroke-width"
+])
+
+// Logical aliases (inline-size, margin-block-start, …) repeat the physical properties in a
+// horizontal writing mode and only make the stylesheet longer
+const LOGICAL_ALIAS = /(^|-)(block|inline)(-|$)/
+
+// Styles are captured as computed values, so the page's own style and script elements are dropped
+const SKIPPED_TAGS = new Set(["script", "style", "noscript", "template"])
+
+type Styles = Map<string, string>
+
+export type SerializeOptions = {
+  // Gets the clone, with the page's classes still on it and ::before/::after as spans, before it is turned into HTML (used for redaction)
+  onClone?: (clone: HTMLElement) => void
+}
+
+/**
+ * Serializes `rootEl` into a `<style>` block plus a styled copy. The copy follows the
+ * rendered (flat) tree: open shadow roots are flattened with their slotted content in
+ * place, and same-origin iframes become a div holding the frame's body. Cross-origin
+ * stylesheets can't be read, so their @font-face/@keyframes rules are skipped.
+ */
+export function serializeWithStyles(rootEl: HTMLElement, options: SerializeOptions = {}): string {
+  const defaults = createDefaultStyles()
+  const classes = new Map<string, string>() // declaration block -> class name
+  const scopes = new Set<Document | ShadowRoot>([rootEl.ownerDocument]) // where stylesheets were in effect
+
+  const classFor = (styles: Styles) => {
+    const block = [...styles].map(([prop, value]) => `${prop}:${value}`).join(";")
+    if (!classes.has(block)) classes.set(block, `${CLASS_PREFIX}${classes.size}`)
+    return classes.get(block)!
+  }
+
+  try {
+    const wrapper = document.createElement("div")
+    // Children are pushed in reverse, so they are appended in document order
+    const stack: Array<{ orig: Node, parent: Node, parentStyle: CSSStyleDeclaration | null }> = [
+      { orig: rootEl, parent: wrapper, parentStyle: null }
+    ]
+    const push = (nodes: Node[], parent: Node, parentStyle: CSSStyleDeclaration | null) => {
+      for (let i = nodes.length - 1; i >= 0; i--) stack.push({ orig: nodes[i], parent, parentStyle })
+    }
+    const pseudoInserts: Array<() => void> = []
+    const rewrites: Array<() => void> = []
+
+    while (stack.length) {
+      const { orig, parent, parentStyle } = stack.pop()!
+      if (orig.nodeType === Node.TEXT_NODE) {
+        parent.appendChild(document.importNode(orig, false))
+        continue
+      }
+      if (!(orig.nodeType === Node.ELEMENT_NODE)) continue
+      const el = orig as Element
+      if (SKIPPED_TAGS.has(el.localName) || (el.localName === "link" && /stylesheet/i.test(el.getAttribute("rel") ?? ""))) continue
+
+      // A slot renders its assigned nodes (or its fallback content) in its place
+      if (el.localName === "slot") {
+        const assigned = (el as HTMLSlotElement).assignedNodes({ flatten: true })
+        push(assigned.length ? assigned : Array.from(el.childNodes), parent, parentStyle)
+        continue
+      }
+
+      const view = el.ownerDocument.defaultView ?? window
+      const cs = view.getComputedStyle(el)
+      const frameDoc = frameDocument(el)
+      const copy = frameDoc ? document.createElement("div") : document.importNode(el, false) as Element
+      parent.appendChild(copy)
+
+      const styles = diffStyles(cs, defaults(el), parentStyle)
+      if (frameDoc) {
+        // The frame's box, with its document inside instead of a separate browsing context
+        if (cs.display === "inline") styles.set("display", "inline-block")
+        styles.set("overflow", "hidden")
+      }
+      const className = classFor(styles)
+      const pseudos = (["before", "after"] as const).map((pseudo) => materializePseudo(el, pseudo, cs, defaults, classFor))
+      resolveUrls(el, copy)
+
+      // Inserted once the children are in place but before `onClone`, so pseudo text is redacted too
+      pseudoInserts.push(() => {
+        if (pseudos[0]) copy.prepend(pseudos[0])
+        if (pseudos[1]) copy.append(pseudos[1])
+      })
+      // Applied after `onClone`, which still needs the page's own classes (redaction selectors)
+      // and may replace whole subtrees
+      rewrites.push(() => {
+        copy.removeAttribute("style")
+        copy.setAttribute("class", className)
+      })
+
+      if (el.shadowRoot) {
+        scopes.add(el.shadowRoot)
+        push(Array.from(el.shadowRoot.childNodes), copy, cs)
+      } else if (frameDoc) {
+        scopes.add(frameDoc)
+        if (frameDoc.body) push([frameDoc.body], copy, cs)
+      } else {
+        push(Array.from(el.childNodes), copy, cs)
+      }
+    }
+
+    const clone = wrapper.firstElementChild as HTMLElement
+    pseudoInserts.forEach((insert) => insert())
+    options.onClone?.(clone)
+    rewrites.forEach((rewrite) => rewrite())
+
+    const css = [
+      ...collectAtRules([...classes.keys()].join(";"), scopes),
+      ...[...classes].map(([block, name]) => `.${name}{${block}}`)
+    ].join("\n")
+
+    const style = document.createElement("style")
+    style.textContent = css
+    wrapper.prepend(style)
+    return wrapper.innerHTML
+  } finally {
+    defaults.dispose()
+  }
+}
+
+// Computed values that differ from the element's defaults, skipping inherited ones the parent already sets
+function diffStyles(cs: CSSStyleDeclaration, defaults: Styles, parentStyle: CSSStyleDeclaration | null): Styles {
+  const styles: Styles = new Map()
+  for (let i = 0; i < cs.length; i++) {
+    const prop = cs[i]
+    if (LOGICAL_ALIAS.test(prop)) continue
+    const value = cs.getPropertyValue(prop)
+    if (!value) continue
+
+    const inherited = prop.startsWith("--") || INHERITED.has(prop)
+    if (inherited && parentStyle) {
+      if (parentStyle.getPropertyValue(prop) !== value) styles.set(prop, value)
+    } else if (defaults.get(prop) !== value) {
+      styles.set(prop, value)
+    }
+  }
+  return styles
+}
+
+/**
+ * Default computed styles per tag, read from elements in a blank same-origin iframe
+ * that has no page styles. The iframe lives as long as one serialization.
+ */
+function createDefaultStyles() {
+  const iframe = document.createElement("iframe")
+  iframe.setAttribute("aria-hidden", "true")
+  iframe.style.cssText = "position:fixed;left:-10000px;top:0;width:100px;height:100px;visibility:hidden;border:0;"
+  document.documentElement.appendChild(iframe)
+  const doc = iframe.contentDocument!
+  doc.open()
+  doc.write("<!DOCTYPE html><html><head></head><body></body></html>")
+  doc.close()
+
+  const cache = new Map<string, Styles>()
+  const get = (el: Element | string): Styles => {
+    const ns = typeof el === "string" ? null : el.namespaceURI
+    const tag = typeof el === "string" ? el : el.localName
+    const key = `${ns}|${tag}`
+    if (!cache.has(key)) {
+      const probe = ns ? doc.createElementNS(ns, tag) : doc.createElement(tag)
+      doc.body.appendChild(probe)
+      const cs = iframe.contentWindow!.getComputedStyle(probe)
+      const styles: Styles = new Map()
+      for (let i = 0; i < cs.length; i++) styles.set(cs[i], cs.getPropertyValue(cs[i]))
+      probe.remove()
+      cache.set(key, styles)
+    }
+    return cache.get(key)!
+  }
+
+  return Object.assign(get, { dispose: () => iframe.remove() })
+}
+
+// Turns ::before/::after into a span with the pseudo-element's text and styles
+function materializePseudo(
+  orig: Element,
+  pseudo: "before" | "after",
+  parentStyle: CSSStyleDeclaration,
+  defaults: ReturnType<typeof createDefaultStyles>,
+  classFor: (styles: Styles) => string
+): HTMLElement | null {
+  const cs = (orig.ownerDocument.defaultView ?? window).getComputedStyle(orig, `::${pseudo}`)
+  const content = cs.getPropertyValue("content")
+  if (!content || content === "none" || content === "normal") return null
+
+  const span = document.createElement("span")
+  span.setAttribute("data-grebref-pseudo", pseudo)
+  span.textContent = pseudoText(content, orig)
+  const styles = diffStyles(cs, defaults("span"), parentStyle)
+  styles.delete("content")
+  span.setAttribute("class", classFor(styles))
+  return span
+}
+
+// Text of a `content` value: quoted strings and attr() lookups. Counters and images are left out.
+function pseudoText(content: string, el: Element) {
+  let text = ""
+  for (const m of content.matchAll(/"((?:[^"\\]|\\.)*)"|attr\(\s*([\w-]+)\s*\)/g)) {
+    text += m[2] !== undefined
+      ? el.getAttribute(m[2]) ?? ""
+      : m[1].replace(/\\([0-9a-f]{1,6}\s?|.)/gi, (_, esc: string) =>
+        /^[0-9a-f]/i.test(esc) ? String.fromCodePoint(parseInt(esc, 16)) : esc)
+  }
+  return text
+}
+
+// Resolve src/href to absolute URLs so the snippet works outside the page. Tag names
+// rather than instanceof, elements from iframes belong to another realm.
+function resolveUrls(src: Element, dst: Element) {
+  if (src.localName === "img") {
+    const img = src as HTMLImageElement
+    if (img.currentSrc || img.src) dst.setAttribute("src", img.currentSrc || img.src)
+    if (img.srcset) dst.removeAttribute("srcset") // `src` already holds the candidate the browser picked
+  }
+  if (src.localName === "a") {
+    const a = src as HTMLAnchorElement
+    if (a.href) dst.setAttribute("href", a.href)
+  }
+}
+
+/**
+ * @font-face rules for the font families and @keyframes rules for the animation names
+ * that occur in `css`, with their url()s made absolute. Looks through the document,
+ * shadow root and iframe stylesheets (including adopted ones) the snippet came from.
+ */
+function collectAtRules(css: string, scopes: Set<Document | ShadowRoot>): string[] {
+  const families = new Set<string>()
+  for (const m of css.matchAll(/font-family:([^;]+)/g)) {
+    m[1].split(",").forEach((f) => families.add(unquote(f)))
+  }
+  const animations = new Set<string>()
+  for (const m of css.matchAll(/animation-name:([^;]+)/g)) {
+    m[1].split(",").forEach((a) => animations.add(unquote(a)))
+  }
+
+  const fontFaces: string[] = []
+  const keyframes: string[] = []
+  const visit = (rules: CSSRuleList, baseUrl: string) => {
+    // Rules from iframes belong to another realm, so compare constructor names instead of instanceof
+    for (const rule of Array.from(rules)) {
+      const kind = rule.constructor.name
+      if (kind === "CSSFontFaceRule") {
+        const fontFace = rule as CSSFontFaceRule
+        if (families.has(unquote(fontFace.style.getPropertyValue("font-family")))) fontFaces.push(absolutizeUrls(rule.cssText, baseUrl))
+      } else if (kind === "CSSKeyframesRule") {
+        if (animations.has((rule as CSSKeyframesRule).name.toLowerCase())) keyframes.push(absolutizeUrls(rule.cssText, baseUrl))
+      } else if (kind === "CSSImportRule") {
+        const sheet = (rule as CSSImportRule).styleSheet
+        if (sheet) visitSheet(sheet, baseUrl)
+      } else if ("cssRules" in rule) {
+        visit((rule as CSSGroupingRule).cssRules, baseUrl)
+      }
+    }
+  }
+  const visitSheet = (sheet: CSSStyleSheet, documentUrl: string) => {
+    try {
+      visit(sheet.cssRules, sheet.href ?? documentUrl)
+    } catch {
+      // Cross-origin stylesheet without CORS, its rules are not readable
+    }
+  }
+  scopes.forEach((scope) => {
+    const documentUrl = (scope.nodeType === Node.DOCUMENT_NODE ? scope as Document : scope.ownerDocument).URL
+    const sheets = [...Array.from(scope.styleSheets), ...(scope.adoptedStyleSheets ?? [])]
+    sheets.forEach((sheet) => visitSheet(sheet, documentUrl))
+  })
+
+  return [...new Set(fontFaces), ...new Set(keyframes)]
+}
+
+function unquote(s: string) {
+  return s.trim().replace(/^["']|["']$/g, "").toLowerCase()
+}
+
+function absolutizeUrls(cssText: string, baseUrl: string) {
+  return cssText.replace(/url\(\s*(["']?)([^"')]+)\1\s*\)/g, (match, _quote, url: string) => {
+    try {
+      return `url("${new URL(url, baseUrl).href}")`
+    } catch {
+      return match
+    }
+  })
+}
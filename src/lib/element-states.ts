@@ -0,0 +1,119 @@
+// src/lib/element-states.ts
+// State matrix captures of a picked element: resting, hover, focus, focus-visible, active,
+// and checked/disabled for form controls. Pseudo-classes are forced by the background
+// worker through the debugger (CSS.forcePseudoState, as DevTools does), which computed
+// styles follow, so each state gets both a screenshot and a serialized snippet.
+// :checked and :disabled can't be forced that way and are toggled on the element itself.
+
+export type ElementState = "rest" | "hover" | "focus" | "focus-visible" | "active" | "checked" | "disabled"
+
+// One cell of the matrix, as it is sent in `payload.states`
+export type StateCapture = {
+  state: ElementState
+  base64_file: string | null // null when the element has no box
+  domHtml: string
+}
+
+// The overlay marks the picked element with this attribute so the worker can find its DOM node
+export const STATE_TARGET_ATTRIBUTE = "data-grebref-state-target"
+
+// Focus-visible and active imply focus and hover in a real interaction
+const FORCED_PSEUDO_CLASSES: Record<ElementState, string[]> = {
+  rest: [],
+  hover: ["hover"],
+  focus: ["focus"],
+  "focus-visible": ["focus", "focus-visible"],
+  active: ["hover", "active"],
+  checked: [],
+  disabled: []
+}
+
+const DISABLEABLE = new Set(["button", "input", "select", "textarea", "fieldset"])
+
+const PROTOCOL_VERSION = "1.3"
+
+const targetNodes = new Map<number, number>() // tab id → DOM.NodeId of the marked element
+
+// --- Content side ---
+
+export function relevantStates(el: Element): ElementState[] {
+  const states: ElementState[] = ["rest", "hover", "focus", "focus-visible", "active"]
+  if (isCheckable(el)) states.push("checked")
+  if (DISABLEABLE.has(el.localName)) states.push("disabled")
+  return states
+}
+
+/**
+ * Puts the element itself into `state` where the debugger can't, returns the restore
+ * function. Checking a radio unchecks the rest of its group, so that is restored too.
+ */
+export function applyElementState(el: Element, state: ElementState): () => void {
+  if (state === "checked" && isCheckable(el)) {
+    const input = el as HTMLInputElement
+    const previous = input.type === "radio" && input.name
+      ? Array.from(input.ownerDocument.getElementsByName(input.name)).find((other) => (other as HTMLInputElement).checked) as HTMLInputElement | undefined
+      : undefined
+    const wasChecked = input.checked
+    input.checked = true
+    return () => {
+      input.checked = wasChecked
+      if (previous) previous.checked = true
+    }
+  }
+  if (state === "disabled" && DISABLEABLE.has(el.localName)) {
+    const control = el as HTMLButtonElement
+    const wasDisabled = control.disabled
+    control.disabled = true
+    return () => { control.disabled = wasDisabled }
+  }
+  return () => {}
+}
+
+function isCheckable(el: Element) {
+  return el.localName === "input" && ["checkbox", "radio"].includes((el as HTMLInputElement).type)
+}
+
+// --- Background side ---
+
+export async function startStateCapture(tabId: number) {
+  const target = { tabId }
+  await chrome.debugger.attach(target, PROTOCOL_VERSION)
+  await chrome.debugger.sendCommand(target, "DOM.enable")
+  await chrome.debugger.sendCommand(target, "CSS.enable")
+  await chrome.debugger.sendCommand(target, "DOM.getDocument", { depth: -1, pierce: true })
+
+  // Unlike DOM.querySelector, a search also looks inside shadow roots and iframes
+  const { searchId, resultCount } = await chrome.debugger.sendCommand(target, "DOM.performSearch", {
+    query: `[${STATE_TARGET_ATTRIBUTE}]`
+  }) as { searchId: string; resultCount: number }
+  try {
+    if (!resultCount) throw new Error("Picked element not found")
+    const { nodeIds } = await chrome.debugger.sendCommand(target, "DOM.getSearchResults", {
+      searchId,
+      fromIndex: 0,
+      toIndex: 1
+    }) as { nodeIds: number[] }
+    targetNodes.set(tabId, nodeIds[0])
+  } finally {
+    await chrome.debugger.sendCommand(target, "DOM.discardSearchResults", { searchId })
+  }
+}
+
+export async function forceElementState(tabId: number, state: ElementState) {
+  const nodeId = targetNodes.get(tabId)
+  if (!nodeId) throw new Error("No state capture running in this tab")
+  await chrome.debugger.sendCommand({ tabId }, "CSS.forcePseudoState", {
+    nodeId,
+    forcedPseudoClasses: FORCED_PSEUDO_CLASSES[state]
+  })
+}
+
+// Detaching drops every forced state. Safe to call when nothing is attached
+export async function endStateCapture(tabId: number) {
+  targetNodes.delete(tabId)
+  try {
+    await chrome.debugger.detach({ tabId })
+  } catch (error) {
+    console.warn("⚠️ Ending state capture:", error)
+  }
+}
@@ -0,0 +1,269 @@
+// src/lib/export.ts
+// Local exports of a capture: clipboard, a ZIP bundle and a Markdown or HTML reference card.
+// Everything is built from the payload the overlay would upload, so an export describes the
+// same clip. The ZIP writer only stores: the images are compressed already and it saves us a
+// dependency for a few dozen lines.
+
+import { dataUrlToBlob } from "~lib/data-url"
+import { fileExtension } from "~lib/upload-format"
+
+type ZipEntry = { name: string; data: Blob | string }
+
+/** "example.com-pricing-plans-20261019-143012.png", from the page domain, title and capture time */
+export function exportFilename(payload: Record<string, any>, extension: string) {
+  const domain = payload.context?.page?.domain || safeHostname(payload.url)
+  const title = slugify(payload.title ?? "").slice(0, 60).replace(/-+$/, "")
+  const date = new Date(payload.context?.page?.timestamp ?? Date.now())
+  const pad = (n: number) => String(n).padStart(2, "0")
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  return `${[domain, title, stamp].filter(Boolean).join("-")}.${extension}`
+}
+
+// --- Clipboard ---
+
+export async function copyImage(dataUrl: string) {
+  // PNG is the only image type the async clipboard accepts
+  let blob = await dataUrlToBlob(dataUrl)
+  if (blob.type !== "image/png") {
+    const bitmap = await createImageBitmap(blob)
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    canvas.getContext("2d").drawImage(bitmap, 0, 0)
+    bitmap.close()
+    blob = await canvas.convertToBlob({ type: "image/png" })
+  }
+  await navigator.clipboard.write([new ClipboardItem({ "image/png": blob })])
+}
+
+// As source for editors and rendered for rich text targets
+export async function copyHtml(html: string) {
+  await navigator.clipboard.write([new ClipboardItem({
+    "text/plain": new Blob([html], { type: "text/plain" }),
+    "text/html": new Blob([html], { type: "text/html" })
+  })])
+}
+
+// --- Files ---
+
+/**
+ * The clip as a ZIP: the image (or recording), `snippet.html` for DOM captures, breakpoint
+ * and state captures as separate images, and `metadata.json` with everything else,
+ * including the full `context`. Images in metadata.json are replaced by their path.
+ */
+export async function buildBundle(payload: Record<string, any>, mediaDataUrl: string | null): Promise<Blob> {
+  const { base64_file, domHtml, frames, states, ...metadata } = payload
+  const entries: ZipEntry[] = []
+
+  if (mediaDataUrl) {
+    const media = await dataUrlToBlob(mediaDataUrl)
+    const name = `${payload.media_type === "video" ? "recording" : "image"}.${fileExtension(media.type)}`
+    entries.push({ name, data: media })
+    metadata.file = name
+  }
+  if (domHtml) {
+    entries.push({ name: "snippet.html", data: standaloneHtml(domHtml, payload.title) })
+    metadata.snippet = "snippet.html"
+  }
+  if (frames?.length) {
+    // Indexed names, a width or state slug can repeat and a ZIP can't hold the same name twice
+    metadata.frames = await Promise.all(frames.map(async (frame: Record<string, any>, i: number) => {
+      if (!frame.base64_file) return frame
+      const name = `frames/${i + 1}-${frame.width}.png`
+      entries.push({ name, data: await dataUrlToBlob(frame.base64_file) })
+      return { ...frame, base64_file: name }
+    }))
+  }
+  if (states?.length) {
+    metadata.states = await Promise.all(states.map(async (capture: Record<string, any>, i: number) => {
+      if (!capture.base64_file) return capture
+      const name = `states/${i + 1}-${slugify(capture.state)}.png`
+      entries.push({ name, data: await dataUrlToBlob(capture.base64_file) })
+      return { ...capture, base64_file: name }
+    }))
+  }
+  entries.push({ name: "metadata.json", data: JSON.stringify(metadata, null, 2) })
+
+  return zip(entries)
+}
+
+// The snippet as its own page, the serialized fragment is a <style> block plus markup
+export function standaloneHtml(domHtml: string, title: string) {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title ?? "")}</title>
+</head>
+<body>
+${domHtml}
+</body>
+</html>
+`
+}
+
+export function referenceCardMarkdown(payload: Record<string, any>, imageDataUrl: string | null) {
+  const lines = [`# ${payload.title || payload.url}`, ""]
+  if (imageDataUrl) lines.push(`![${escapeMarkdown(payload.title ?? "")}](${imageDataUrl})`, "")
+  if (payload.text) lines.push(...payload.text.split("\n").map((line: string) => `> ${line}`), "")
+  lines.push(`- **Source:** <${payload.url}>`)
+  lines.push(`- **Captured:** ${new Date(payload.context?.page?.timestamp ?? Date.now()).toLocaleString()}`)
+  if (payload.tags?.length) lines.push(`- **Tags:** ${payload.tags.map((tag: string) => `\`${tag}\``).join(", ")}`)
+  if (payload.selector) lines.push(`- **Selector:** \`${payload.selector}\``)
+  if (payload.description) lines.push("", payload.description)
+  if (payload.domHtml) lines.push("", "```html", payload.domHtml, "```")
+  return lines.join("\n") + "\n"
+}
+
+// Self-contained page, DOM snippets render in a sandboxed frame like in the library
+export function referenceCardHtml(payload: Record<string, any>, imageDataUrl: string | null) {
+  const title = escapeHtml(payload.title || payload.url)
+  const url = escapeHtml(payload.url)
+  const captured = new Date(payload.context?.page?.timestamp ?? Date.now()).toLocaleString()
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { margin: 0; padding: 32px; font: 14px/1.5 system-ui, sans-serif; color: #111827; background: #f3f4f6; }
+  article { max-width: 960px; margin: 0 auto; padding: 24px; background: #fff; border-radius: 12px; box-shadow: 0 1px 3px rgba(0, 0, 0, .1); }
+  h1 { margin: 0 0 16px; font-size: 20px; }
+  img, iframe { display: block; width: 100%; margin-bottom: 16px; border: 1px solid #e5e7eb; border-radius: 8px; }
+  iframe { height: 480px; }
+  blockquote { margin: 0 0 16px; padding-left: 12px; border-left: 3px solid #d1d5db; white-space: pre-wrap; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0 0 16px; }
+  dt { color: #6b7280; }
+  dd { margin: 0; overflow-wrap: anywhere; }
+  .tag { display: inline-block; margin: 0 4px 4px 0; padding: 0 8px; background: #e5e7eb; border-radius: 999px; font-size: 12px; }
+</style>
+</head>
+<body>
+<article>
+<h1>${title}</h1>
+${imageDataUrl ? `<img src="${imageDataUrl}" alt="${title}">` : ""}
+${!imageDataUrl && payload.domHtml ? `<iframe sandbox="" srcdoc="${escapeHtml(standaloneHtml(payload.domHtml, payload.title))}"></iframe>` : ""}
+${payload.text ? `<blockquote>${escapeHtml(payload.text)}</blockquote>` : ""}
+<dl>
+<dt>Source</dt><dd><a href="${url}">${url}</a></dd>
+<dt>Captured</dt><dd>${escapeHtml(captured)}</dd>
+${payload.tags?.length ? `<dt>Tags</dt><dd>${payload.tags.map((tag: string) => `<span class="tag">${escapeHtml(tag)}</span>`).join("")}</dd>` : ""}
+${payload.selector ? `<dt>Selector</dt><dd><code>${escapeHtml(payload.selector)}</code></dd>` : ""}
+</dl>
+${payload.description ? `<p>${escapeHtml(payload.description)}</p>` : ""}
+</article>
+</body>
+</html>
+`
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  // Revoking right away can cancel the download before it has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
+
+// --- ZIP (stored, no compression) ---
+
+async function zip(entries: ZipEntry[]): Promise<Blob> {
+  const parts: BlobPart[] = []
+  const central: BlobPart[] = []
+  const { time, date } = dosDateTime(new Date())
+  let offset = 0
+  let centralSize = 0
+
+  for (const entry of entries) {
+    const name = new TextEncoder().encode(entry.name)
+    const data = typeof entry.data === "string"
+      ? new TextEncoder().encode(entry.data)
+      : new Uint8Array(await entry.data.arrayBuffer())
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true) // version needed
+    local.setUint16(6, 0x0800, true) // UTF-8 names
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+    parts.push(local.buffer, name, data)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint16(4, 20, true) // version made by
+    header.setUint16(6, 20, true)
+    header.setUint16(8, 0x0800, true)
+    header.setUint16(10, 0, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, date, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, data.length, true)
+    header.setUint32(24, data.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true) // the rest (extra, comment, disk, attributes) stays 0
+    central.push(header.buffer, name)
+    centralSize += 46 + name.length
+
+    offset += 30 + name.length + data.length
+  }
+
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, end.buffer], { type: "application/zip" })
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS timestamps, local time with two-second resolution
+function dosDateTime(d: Date) {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  }
+}
+
+function slugify(text: string) {
+  return text.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "")
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function escapeMarkdown(text: string) {
+  return text.replace(/([\\[\]])/g, "\\$1")
+}
+
+function safeHostname(url: string) {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return ""
+  }
+}
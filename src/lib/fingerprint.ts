@@ -0,0 +1,257 @@
+// src/lib/fingerprint.ts
+// Which frameworks, CSS tooling and design systems a page is built with, and their versions.
+// Content scripts live in an isolated world and can't see page globals like `React` or
+// `__NUXT__`, so the background worker injects `detectTechnologies` into the page's main
+// world with chrome.scripting. Every finding carries a 0–100 confidence and its evidence,
+// and the result is sent as `context.technical`.
+
+export type TechnologyCategory = "framework" | "meta-framework" | "css" | "css-in-js" | "design-system" | "library"
+
+export type Technology = {
+  name: string
+  category: TechnologyCategory
+  version: string | null
+  confidence: number // 0–100, the strongest single piece of evidence
+  evidence: string[]
+}
+
+export type TechnicalContext = {
+  technologies: Technology[] // most confident first
+  framework: string | null // most confident framework, meta-frameworks first
+  cssFramework: string | null // most confident CSS framework or design system
+  hasShadowDOM: boolean
+}
+
+// --- Background side ---
+
+export async function fingerprintTab(tabId: number): Promise<TechnicalContext> {
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId },
+    world: "MAIN",
+    func: detectTechnologies
+  })
+  if (!injection?.result) throw new Error("Fingerprinting returned nothing")
+  return injection.result as TechnicalContext
+}
+
+// --- Main world ---
+
+/**
+ * Runs in the page, so it is serialized on its own: everything it needs has to be
+ * declared inside it. Reads globals, DOM markers, class names, custom properties and
+ * the URLs and banners of scripts and stylesheets.
+ */
+function detectTechnologies(): TechnicalContext {
+  const MAX_ELEMENTS = 3000
+  const w = window as any
+  const found = new Map<string, Technology>()
+
+  const add = (name: string, category: TechnologyCategory, confidence: number, evidence: string, version?: unknown) => {
+    const entry = found.get(name) ?? { name, category, version: null, confidence: 0, evidence: [] }
+    entry.confidence = Math.max(entry.confidence, confidence)
+    entry.evidence.push(evidence)
+    if (!entry.version && typeof version === "string" && version) entry.version = version
+    found.set(name, entry)
+  }
+  const has = (selector: string) => {
+    try {
+      return !!document.querySelector(selector)
+    } catch {
+      return false
+    }
+  }
+
+  // One pass over the page: class names, expando properties and shadow roots
+  const elements = Array.from(document.querySelectorAll("body *")).slice(0, MAX_ELEMENTS)
+  const classes = new Set<string>()
+  let hasShadowDOM = false
+  let reactRoot = false
+  let vueApp: any = null
+  let vue2: any = null
+  for (const el of elements) {
+    el.classList.forEach((c) => classes.add(c))
+    if (el.shadowRoot) hasShadowDOM = true
+    if (!reactRoot || !vueApp || !vue2) {
+      for (const key of Object.keys(el)) {
+        if (key.startsWith("__reactFiber$") || key.startsWith("__reactContainer$") || key === "_reactRootContainer") reactRoot = true
+      }
+      vueApp ??= (el as any).__vue_app__ ?? null
+      vue2 ??= (el as any).__vue__ ?? null
+    }
+  }
+  const classMatching = (pattern: RegExp) => [...classes].find((c) => pattern.test(c))
+
+  // Custom property prefixes declared in readable stylesheets (--tw-ring-color → "tw")
+  const variablePrefixes = new Set<string>()
+  const visit = (rules: CSSRuleList) => {
+    for (const rule of Array.from(rules)) {
+      const style = (rule as CSSStyleRule).style
+      if (style) {
+        for (let i = 0; i < style.length; i++) {
+          const match = /^--([a-z]+)-/.exec(style[i])
+          if (match) variablePrefixes.add(match[1])
+        }
+      }
+      const nested = (rule as CSSGroupingRule).cssRules
+      if (nested) visit(nested)
+    }
+  }
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      visit(sheet.cssRules)
+    } catch {
+      // Cross-origin without CORS
+    }
+  }
+
+  // Script and stylesheet URLs often carry the package name and version (CDNs, versioned bundles)
+  const urls = Array.from(document.querySelectorAll<HTMLScriptElement | HTMLLinkElement>("script[src], link[rel=stylesheet][href]"))
+    .map((el) => ("src" in el ? el.src : el.href))
+  const versionInUrls = (name: string) => {
+    const pattern = new RegExp(`${name}[@/-]v?(\\d+\\.\\d+(?:\\.\\d+)?)`, "i")
+    for (const url of urls) {
+      const match = pattern.exec(url)
+      if (match) return match[1]
+    }
+    return null
+  }
+  // License banners at the top of inline styles, e.g. "/*! tailwindcss v4.0.0 | MIT License */"
+  const banners = Array.from(document.querySelectorAll("style")).map((style) => style.textContent!.slice(0, 300)).join("\n")
+  const versionInBanners = (name: string) => new RegExp(`${name}\\s+v(\\d+\\.\\d+(?:\\.\\d+)?)`, "i").exec(banners)?.[1] ?? null
+
+  const generator = document.querySelector<HTMLMetaElement>("meta[name=generator]")?.content ?? ""
+  const versionInGenerator = (name: string) => new RegExp(`${name}\\s*v?(\\d+\\.\\d+(?:\\.\\d+)?)`, "i").exec(generator)?.[1] ?? null
+
+  // --- React and friends ---
+
+  const hook = w.__REACT_DEVTOOLS_GLOBAL_HOOK__
+  const renderers: any[] = hook?.renderers instanceof Map ? [...hook.renderers.values()] : []
+  const reactDom = renderers.find((renderer) => renderer?.rendererPackageName === "react-dom") ?? renderers[0]
+  if (reactDom) add("React", "framework", 95, "DevTools hook renderer", reactDom.version)
+  if (reactRoot) add("React", "framework", 90, "React fiber on DOM nodes", w.React?.version)
+  if (w.React?.version) add("React", "framework", 90, "window.React", w.React.version)
+  if (has("[data-reactroot], [data-reactid]")) add("React", "framework", 70, "data-reactroot attribute")
+
+  if (w.__NEXT_DATA__ || has("script#__NEXT_DATA__")) add("Next.js", "meta-framework", 95, "__NEXT_DATA__ (pages router)", w.next?.version)
+  if (w.__next_f) add("Next.js", "meta-framework", 90, "__next_f (app router)", w.next?.version)
+  if (has("script[src*='/_next/']")) add("Next.js", "meta-framework", 80, "/_next/ scripts", w.next?.version ?? versionInGenerator("Next.js"))
+  if (w.__remixContext || w.__remixManifest) add("Remix", "meta-framework", 95, "__remixContext", versionInUrls("remix"))
+  if (w.__reactRouterContext) add("React Router", "meta-framework", 90, "__reactRouterContext (framework mode)")
+  if (has("#___gatsby") || w.___loader) add("Gatsby", "meta-framework", 90, "#___gatsby", versionInGenerator("Gatsby"))
+  if (w.__PREACT_DEVTOOLS__ || (w.preact && w.preact.options)) add("Preact", "framework", 80, "Preact globals", w.preact?.version)
+
+  // --- Vue ---
+
+  if (vueApp) add("Vue", "framework", 95, "__vue_app__ on the root element", vueApp.version)
+  if (vue2) add("Vue", "framework", 95, "__vue__ on a component element", vue2.$root?.constructor?.version ?? w.Vue?.version)
+  if (w.Vue?.version) add("Vue", "framework", 85, "window.Vue", w.Vue.version)
+  if (w.__VUE__) add("Vue", "framework", 80, "__VUE__ flag", vueApp?.version)
+  if (has("[data-v-app]")) add("Vue", "framework", 60, "data-v-app attribute")
+
+  const nuxtVersion = vueApp?.config?.globalProperties?.$nuxt?.versions?.nuxt
+  if (w.__NUXT__ || w.useNuxtApp || has("#__nuxt")) add("Nuxt", "meta-framework", w.__NUXT__ ? 95 : 75, "__NUXT__ / #__nuxt", nuxtVersion ?? versionInGenerator("Nuxt"))
+
+  // --- Svelte ---
+
+  if (w.__svelte?.v instanceof Set) add("Svelte", "framework", 90, "__svelte version set", [...w.__svelte.v].sort().pop())
+  const svelteClass = classMatching(/^svelte-[a-z0-9]{5,}$/)
+  if (svelteClass) add("Svelte", "framework", 75, `scoped class .${svelteClass}`)
+  const sveltekitGlobal = Object.keys(w).find((key) => key.startsWith("__sveltekit_"))
+  if (sveltekitGlobal) add("SvelteKit", "meta-framework", 95, sveltekitGlobal)
+  if (has("[data-sveltekit-preload-data], [data-sveltekit-reload], [data-sveltekit-hydrate]")) add("SvelteKit", "meta-framework", 85, "data-sveltekit-* attributes")
+
+  // --- Angular ---
+
+  const ngVersion = document.querySelector("[ng-version]")?.getAttribute("ng-version")
+  if (ngVersion) add("Angular", "framework", 95, "ng-version attribute", ngVersion)
+  if (w.getAllAngularRootElements || w.ng?.getComponent) add("Angular", "framework", 85, "Angular debug globals")
+  if (w.angular?.version) add("AngularJS", "framework", 95, "window.angular", w.angular.version.full)
+  else if (has("[ng-app], [data-ng-app], .ng-binding")) add("AngularJS", "framework", 70, "ng-app attribute")
+
+  // --- Astro, Solid, Qwik and older libraries ---
+
+  if (has("astro-island, astro-slot")) add("Astro", "meta-framework", 90, "astro-island elements", versionInGenerator("Astro"))
+  if (/^Astro/i.test(generator)) add("Astro", "meta-framework", 95, "generator meta", versionInGenerator("Astro"))
+  if (w._$HY) add("Solid", "framework", 85, "_$HY hydration global")
+  const qwikVersion = document.querySelector("[q\\:version]")?.getAttribute("q:version")
+  if (qwikVersion || has("[q\\:container]")) add("Qwik", "framework", 95, "q:container attribute", qwikVersion)
+  if (w.jQuery?.fn?.jquery) add("jQuery", "library", 95, "window.jQuery", w.jQuery.fn.jquery)
+  if (w.Alpine?.version) add("Alpine.js", "library", 95, "window.Alpine", w.Alpine.version)
+  if (w.htmx?.version) add("htmx", "library", 95, "window.htmx", w.htmx.version)
+  if (w.Backbone?.VERSION) add("Backbone.js", "library", 95, "window.Backbone", w.Backbone.VERSION)
+  if (w.Ember?.VERSION) add("Ember.js", "framework", 95, "window.Ember", w.Ember.VERSION)
+
+  // --- CSS frameworks ---
+
+  const tailwindVersion = versionInBanners("tailwindcss") ?? versionInUrls("tailwindcss")
+  if (tailwindVersion) add("Tailwind CSS", "css", 95, "tailwindcss banner or URL", tailwindVersion)
+  if (variablePrefixes.has("tw")) add("Tailwind CSS", "css", 85, "--tw-* custom properties")
+  // Utility classes alone are weak evidence, plenty of hand-written CSS has a .flex
+  const utilities = [...classes].filter((c) => /^(?:[a-z]+:)*(?:p[xytrbl]?|m[xytrbl]?|gap|w|h|text|bg|rounded|shadow)-[\w.[\]/#-]+$/.test(c))
+  if (utilities.length >= 20) add("Tailwind CSS", "css", 50, `${utilities.length} utility-style classes`)
+
+  const bootstrapVersion = w.bootstrap?.Tooltip?.VERSION ?? w.jQuery?.fn?.tooltip?.Constructor?.VERSION ?? versionInBanners("Bootstrap") ?? versionInUrls("bootstrap")
+  if (bootstrapVersion) add("Bootstrap", "css", 95, "Bootstrap version marker", bootstrapVersion)
+  if (variablePrefixes.has("bs")) add("Bootstrap", "css", 85, "--bs-* custom properties")
+  if (classes.has("container") && classes.has("row") && classes.has("btn") && classMatching(/^col-(?:sm|md|lg|xl)-\d+$/)) {
+    add("Bootstrap", "css", 55, "grid and button classes")
+  }
+  const bulmaVersion = versionInBanners("bulma") ?? versionInUrls("bulma")
+  if (bulmaVersion || variablePrefixes.has("bulma")) add("Bulma", "css", 90, "Bulma banner or --bulma-* properties", bulmaVersion)
+
+  // --- CSS-in-JS ---
+
+  const styled = document.querySelector("style[data-styled]")
+  if (styled) add("styled-components", "css-in-js", 95, "style[data-styled]", styled.getAttribute("data-styled-version"))
+  else if (classMatching(/^sc-[a-zA-Z]{5,}$/)) add("styled-components", "css-in-js", 60, "sc-* class names")
+  const emotion = document.querySelector("style[data-emotion]")
+  if (emotion) add("Emotion", "css-in-js", 95, `style[data-emotion="${emotion.getAttribute("data-emotion")}"]`)
+  else if (classMatching(/^css-[a-z0-9]{5,7}(?:-[A-Za-z]+)?$/)) add("Emotion", "css-in-js", 55, "css-* class names")
+
+  // --- Component libraries and design systems ---
+
+  const designSystems: Array<[name: string, classPattern: RegExp | null, variablePrefix: string | null, selector: string | null, version?: unknown]> = [
+    ["MUI", /^Mui[A-Z][A-Za-z]+-/, "mui", null, versionInUrls("@mui/material")],
+    ["Chakra UI", /^chakra-/, "chakra", null],
+    ["Ant Design", /^ant-(?:btn|layout|row|col|menu|input|table|modal|select)/, "ant", null, w.antd?.version],
+    ["Mantine", /^mantine-/, "mantine", null],
+    ["Radix UI", null, "radix", "[data-radix-collection-item], [data-radix-popper-content-wrapper], [data-radix-scroll-area-viewport]"],
+    ["Headless UI", null, null, "[data-headlessui-state], [id^='headlessui-']"],
+    ["Vuetify", /^v-application$/, "v", null, w.Vuetify?.version ?? vueApp?.config?.globalProperties?.$vuetify?.version],
+    ["Quasar", /^q-(?:layout|page|btn)$/, "q", null, w.Quasar?.version],
+    ["Carbon", /^(?:cds|bx)--/, "cds", null],
+    ["Fluent UI", /^(?:fui|ms)-[A-Z]/, null, null],
+    ["Polaris", /^Polaris-/, "p", null],
+    ["Primer", /^(?:Box|Button)-sc-|^color-fg-|^btn-primary$/, null, "[data-color-mode][data-light-theme]"],
+    ["Salesforce Lightning", /^slds-/, "slds", null],
+    ["Shoelace", null, "sl", "sl-button, sl-input, sl-dialog, sl-icon"],
+    ["Material Web", null, "md", "md-filled-button, md-outlined-button, md-filled-text-field, md-dialog"],
+    ["Spectrum", /^spectrum-/, "spectrum", "sp-theme"]
+  ]
+  for (const [name, classPattern, variablePrefix, selector, version] of designSystems) {
+    const matchedClass = classPattern && classMatching(classPattern)
+    if (matchedClass) add(name, "design-system", 85, `class .${matchedClass}`, version)
+    if (selector && has(selector)) add(name, "design-system", 85, `elements matching ${selector.split(",")[0]}`, version)
+    // Short prefixes like --p- or --v- are too generic on their own
+    if (variablePrefix && variablePrefixes.has(variablePrefix)) add(name, "design-system", variablePrefix.length > 2 ? 75 : 35, `--${variablePrefix}-* custom properties`, version)
+  }
+  // shadcn/ui is Radix plus Tailwind with its own theme variables
+  if (found.has("Radix UI") && found.has("Tailwind CSS") && getComputedStyle(document.documentElement).getPropertyValue("--radius") && getComputedStyle(document.documentElement).getPropertyValue("--primary-foreground")) {
+    add("shadcn/ui", "design-system", 70, "Radix and Tailwind with --primary-foreground/--radius")
+  }
+
+  const technologies = [...found.values()].filter((t) => t.confidence >= 50).sort((a, b) => b.confidence - a.confidence)
+  const best = (...categories: TechnologyCategory[]) => {
+    for (const category of categories) {
+      const match = technologies.find((t) => t.category === category)
+      if (match) return match.version ? `${match.name} ${match.version}` : match.name
+    }
+    return null
+  }
+  return {
+    technologies,
+    framework: best("meta-framework", "framework"),
+    cssFramework: best("css", "design-system"),
+    hasShadowDOM
+  }
+}
@@ -0,0 +1,68 @@
+// src/lib/lasso.ts
+// Geometry of the image mode lasso. Selections are kept in document coordinates so they can
+// outgrow the viewport: the page auto-scrolls while a drag is near an edge, and a drawn
+// selection can be moved and resized with handles before it is captured.
+
+export type DocRect = { x: number; y: number; w: number; h: number }
+
+export type LassoHandle = "n" | "ne" | "e" | "se" | "s" | "sw" | "w" | "nw" | "move"
+
+export const RESIZE_HANDLES: Exclude<LassoHandle, "move">[] = ["n", "ne", "e", "se", "s", "sw", "w", "nw"]
+
+// Smaller than this is a click, not a selection
+export const MIN_LASSO_SIZE = 4
+
+// Auto-scroll starts this close to a viewport edge and speeds up towards it (px per frame)
+const EDGE_MARGIN = 48
+const MAX_SCROLL_SPEED = 28
+
+/** The rectangle spanned by two points, whichever corners they are */
+export function spanRect(ax: number, ay: number, bx: number, by: number): DocRect {
+  return { x: Math.min(ax, bx), y: Math.min(ay, by), w: Math.abs(bx - ax), h: Math.abs(by - ay) }
+}
+
+/**
+ * `start` moved or resized by the pointer delta. Dragging an edge past the opposite one
+ * flips the selection instead of giving it a negative size.
+ */
+export function adjustRect(start: DocRect, handle: LassoHandle, dx: number, dy: number): DocRect {
+  // Kept on the page, scroll positions can't go negative
+  if (handle === "move") return { ...start, x: Math.max(0, start.x + dx), y: Math.max(0, start.y + dy) }
+  let left = start.x
+  let top = start.y
+  let right = start.x + start.w
+  let bottom = start.y + start.h
+  if (handle.includes("w")) left += dx
+  if (handle.includes("e")) right += dx
+  if (handle.includes("n")) top += dy
+  if (handle.includes("s")) bottom += dy
+  return spanRect(left, top, right, bottom)
+}
+
+/** How far to scroll this frame for a pointer at the given client position */
+export function autoScrollDelta(clientX: number, clientY: number) {
+  const speed = (distance: number) => Math.ceil(MAX_SCROLL_SPEED * Math.min(1, (EDGE_MARGIN - distance) / EDGE_MARGIN))
+  const axis = (position: number, size: number) => {
+    if (position < EDGE_MARGIN) return -speed(Math.max(0, position))
+    if (position > size - EDGE_MARGIN) return speed(Math.max(0, size - position))
+    return 0
+  }
+  return { dx: axis(clientX, window.innerWidth), dy: axis(clientY, window.innerHeight) }
+}
+
+export function toDocRect(rect: DocRect, scroll: { x: number; y: number }): DocRect {
+  return { x: rect.x + scroll.x, y: rect.y + scroll.y, w: rect.w, h: rect.h }
+}
+
+// Client coordinates at the current scroll position, may lie partly outside the viewport
+export function toClientRect(rect: DocRect): DocRect {
+  return { x: rect.x - window.scrollX, y: rect.y - window.scrollY, w: rect.w, h: rect.h }
+}
+
+/** The lasso handle under the pointer, the handles live in the overlay's shadow root */
+export function handleAt(e: Event): LassoHandle | null {
+  for (const node of e.composedPath()) {
+    if (node instanceof HTMLElement && node.dataset.lassoHandle) return node.dataset.lassoHandle as LassoHandle
+  }
+  return null
+}
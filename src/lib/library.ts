@@ -0,0 +1,160 @@
+// src/lib/library.ts
+// Local clip library in IndexedDB. Every capture the user saves or uploads ends up
+// here, so the library page works offline and only chosen clips are synced.
+// Must be used from the extension origin (background or extension pages), content
+// scripts go through the background with LIBRARY_SAVE.
+
+import type { Annotation } from "~lib/annotations"
+import { CLIPS_STORE, withStore } from "~lib/db"
+import type { StateCapture } from "~lib/element-states"
+import type { ResponsiveFrame } from "~lib/responsive"
+
+export type ClipMode = "image" | "dom" | "fullpage" | "record" | "text"
+
+export type LibraryClip = {
+  id: string
+  createdAt: number
+  mode: ClipMode
+  url: string
+  title: string
+  domain: string
+  description: string
+  tags: string[]
+  imageDataUrl: string | null // for recordings a WebM, GIF or animated WebP
+  imageScale: number | null // image pixels per CSS pixel, missing on clips saved before it was recorded
+  annotations: Annotation[] // vector layer drawn over imageDataUrl
+  domHtml: string | null
+  selector: string | null // of the captured element, missing on clips saved before it was kept
+  text: string | null // text references, missing on clips saved before they existed
+  frames: ResponsiveFrame[] // breakpoint captures, missing on clips saved before they existed
+  states: StateCapture[] // state matrix, likewise
+  context: Record<string, any> | null
+  syncedUuid: string | null
+  syncedUrl: string | null // hosted library link of the profile it was synced to
+}
+
+export type ClipFilters = {
+  query: string
+  domain: string | null
+  mode: ClipMode | null
+  from: string | null // yyyy-mm-dd, inclusive
+  to: string | null // yyyy-mm-dd, inclusive
+}
+
+/**
+ * Stores a capture built by the overlay. The payload is the same object that is
+ * sent to the backend, so the library keeps exactly what would have been uploaded.
+ */
+export async function saveClip(
+  payload: Record<string, any>,
+  meta: { mode: ClipMode; tags: string[] }
+): Promise<LibraryClip> {
+  const clip: LibraryClip = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    mode: meta.mode,
+    url: payload.url,
+    title: payload.title ?? "",
+    domain: payload.context?.page?.domain ?? safeHostname(payload.url),
+    description: payload.description ?? "",
+    tags: meta.tags,
+    imageDataUrl: payload.base64_file ?? null,
+    imageScale: payload.image_scale ?? null,
+    annotations: payload.annotations ?? [],
+    domHtml: payload.domHtml ?? null,
+    selector: payload.selector ?? null,
+    text: payload.text ?? null,
+    frames: payload.frames ?? [],
+    states: payload.states ?? [],
+    context: payload.context ?? null,
+    syncedUuid: null,
+    syncedUrl: null
+  }
+  await withStore(CLIPS_STORE, "readwrite", (store) => store.put(clip))
+  console.log("📚 Clip saved to library:", clip.id)
+  notifyLibraryChanged()
+  return clip
+}
+
+export async function listClips(): Promise<LibraryClip[]> {
+  const clips = await withStore<LibraryClip[]>(CLIPS_STORE, "readonly", (store) => store.getAll())
+  return clips.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export function deleteClip(id: string) {
+  return withStore(CLIPS_STORE, "readwrite", (store) => store.delete(id))
+}
+
+export async function markClipSynced(id: string, uuid: string, url: string | null) {
+  const clip = await withStore<LibraryClip>(CLIPS_STORE, "readonly", (store) => store.get(id))
+  if (!clip) return
+  clip.syncedUuid = uuid
+  clip.syncedUrl = url
+  await withStore(CLIPS_STORE, "readwrite", (store) => store.put(clip))
+  notifyLibraryChanged()
+}
+
+// Inverse of saveClip, used when a clip is synced from the library page
+export function clipToPayload(clip: LibraryClip): Record<string, any> {
+  const payload: Record<string, any> = {
+    url: clip.url,
+    title: clip.title,
+    description: clip.description,
+    context: clip.context
+  }
+  if (clip.imageDataUrl) payload.base64_file = clip.imageDataUrl
+  if (clip.imageDataUrl && clip.imageScale) payload.image_scale = clip.imageScale
+  if (clip.annotations?.length) payload.annotations = clip.annotations
+  if (clip.domHtml) payload.domHtml = clip.domHtml
+  if (clip.domHtml && clip.selector) payload.selector = clip.selector
+  if (clip.text) payload.text = clip.text
+  if (clip.frames?.length) payload.frames = clip.frames
+  if (clip.states?.length) payload.states = clip.states
+  if (clip.tags?.length) payload.tags = clip.tags
+  if (clip.mode === "record") payload.media_type = "video"
+  if (clip.mode === "text") payload.media_type = "text"
+  return payload
+}
+
+// Every tag used so far, most used first, for autocompleting the overlay's tags field
+export async function listTags(): Promise<string[]> {
+  const counts = new Map<string, number>()
+  for (const clip of await listClips()) {
+    for (const tag of clip.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1)
+  }
+  return [...counts.entries()].sort(([, a], [, b]) => b - a).map(([tag]) => tag)
+}
+
+/**
+ * Full-text search over title, URL, description, tags and saved text plus the sidebar filters.
+ * Every whitespace separated term has to match somewhere.
+ */
+export function filterClips(clips: LibraryClip[], filters: ClipFilters): LibraryClip[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean)
+  const from = filters.from ? new Date(filters.from + "T00:00:00").getTime() : null
+  const to = filters.to ? new Date(filters.to + "T23:59:59.999").getTime() : null
+
+  return clips.filter((clip) => {
+    if (filters.domain && clip.domain !== filters.domain) return false
+    if (filters.mode && clip.mode !== filters.mode) return false
+    if (from !== null && clip.createdAt < from) return false
+    if (to !== null && clip.createdAt > to) return false
+    if (!terms.length) return true
+
+    const haystack = [clip.title, clip.url, clip.description, ...clip.tags, clip.text ?? ""].join(" ").toLowerCase()
+    return terms.every((term) => haystack.includes(term))
+  })
+}
+
+// Lets an open library page refresh, nobody listening is fine
+function notifyLibraryChanged() {
+  chrome.runtime.sendMessage({ type: "LIBRARY_CHANGED" }).catch(() => {})
+}
+
+function safeHostname(url: string) {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return ""
+  }
+}
@@ -0,0 +1,82 @@
+// src/lib/profiles.ts
+// Named environment profiles (local dev, staging, production, ...) kept in chrome.storage.sync.
+// Each profile says where clips are uploaded, where the hosted library lives and which
+// extra headers to send. Edited on the options page, switched from the popup.
+
+export type Profile = {
+  id: string
+  name: string
+  uploadUrl: string
+  libraryUrl: string
+  headers: Record<string, string>
+  signInUrl?: string // web sign-in page that redirects back with a token, see lib/auth.ts
+  refreshUrl?: string // endpoint that trades a refresh token for a new access token
+}
+
+export type ProfileSettings = {
+  profiles: Profile[]
+  activeProfileId: string
+}
+
+const STORAGE_KEY = "profileSettings"
+
+export const DEFAULT_SETTINGS: ProfileSettings = {
+  profiles: [
+    {
+      id: "production",
+      name: "Production",
+      uploadUrl: "https://do9fz3dkd8sl6.cloudfront.net/api/clips",
+      libraryUrl: "https://grebref-frontend-one.vercel.app/",
+      headers: {}
+    },
+    {
+      id: "local",
+      name: "Local dev",
+      uploadUrl: "http://localhost:8787/api/clips",
+      libraryUrl: "http://localhost:3000/",
+      headers: {}
+    }
+  ],
+  activeProfileId: "production"
+}
+
+export async function getProfileSettings(): Promise<ProfileSettings> {
+  const stored = await chrome.storage.sync.get(STORAGE_KEY)
+  const settings = stored[STORAGE_KEY] as ProfileSettings | undefined
+  return settings?.profiles?.length ? settings : DEFAULT_SETTINGS
+}
+
+export async function saveProfileSettings(settings: ProfileSettings) {
+  if (!settings.profiles.some((p) => p.id === settings.activeProfileId)) {
+    settings = { ...settings, activeProfileId: settings.profiles[0]?.id }
+  }
+  await chrome.storage.sync.set({ [STORAGE_KEY]: settings })
+}
+
+export async function getActiveProfile(): Promise<Profile> {
+  const settings = await getProfileSettings()
+  return settings.profiles.find((p) => p.id === settings.activeProfileId) ?? settings.profiles[0]
+}
+
+export async function getProfile(id: string): Promise<Profile | null> {
+  const settings = await getProfileSettings()
+  return settings.profiles.find((p) => p.id === id) ?? null
+}
+
+export async function setActiveProfile(id: string) {
+  const settings = await getProfileSettings()
+  await saveProfileSettings({ ...settings, activeProfileId: id })
+}
+
+export function onProfileSettingsChanged(callback: (settings: ProfileSettings) => void) {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    if (areaName === "sync" && changes[STORAGE_KEY]) getProfileSettings().then(callback)
+  }
+  chrome.storage.onChanged.addListener(listener)
+  return () => chrome.storage.onChanged.removeListener(listener)
+}
+
+// Link to a clip in the hosted library of a profile
+export function libraryLink(profile: Profile, uuid: string) {
+  return `${profile.libraryUrl.replace(/\/+$/, "")}/library/${uuid}`
+}
@@ -0,0 +1,234 @@
+// src/lib/protocol.ts
+// Typed request/response layer between the background worker and its callers (the overlay
+// and the extension pages). Every request gets its own port: the worker answers with one
+// result, may report progress on the way, and aborts the handler when the port goes away.
+// Callers get timeouts and cancellation through an AbortSignal; broadcasts from the worker
+// (UPLOAD_STATUS, RUN_COMMAND, …) stay plain runtime messages.
+// A new request type is an entry in RequestMap plus its handler in background.ts.
+
+import type { AuthStatus } from "~lib/auth"
+import type { CaptureProgress, FullPageCaptureResult, PageRegion } from "~lib/capture"
+import type { ElementState } from "~lib/element-states"
+import type { TechnicalContext } from "~lib/fingerprint"
+import type { ClipMode } from "~lib/library"
+import type { Recording, RecordingRequest } from "~lib/recording"
+import type { CaptureCommand } from "~lib/shortcuts"
+import type { UploadSummary } from "~lib/upload-queue"
+
+export const PROTOCOL_VERSION = 1
+
+const PORT_NAME = "grebref-request"
+
+type Empty = Record<string, never>
+
+export type RequestMap = {
+  CAPTURE: { request: Empty; response: { dataUrl: string; zoom: number } }
+  CAPTURE_FULL_PAGE: { request: Empty; response: FullPageCaptureResult; progress: CaptureProgress }
+  // Stitched like the full page, for lasso selections that don't fit in the viewport
+  CAPTURE_REGION: { request: { region: PageRegion }; response: FullPageCaptureResult; progress: CaptureProgress }
+  // Screenshot of a document region, needs the debugger attached by RESPONSIVE_START or STATES_START
+  CAPTURE_CLIP: { request: { clip: { x: number; y: number; width: number; height: number } }; response: { dataUrl: string } }
+  UPLOAD_ENQUEUE: { request: { payload: Record<string, any>; clipId: string | null }; response: { upload: UploadSummary } }
+  UPLOAD_LIST: { request: Empty; response: { uploads: UploadSummary[] } }
+  UPLOAD_RETRY: { request: { id: string }; response: Empty }
+  UPLOAD_DISCARD: { request: { id: string }; response: Empty }
+  LIBRARY_SAVE: { request: { payload: Record<string, any>; mode: ClipMode; tags: string[] }; response: { clipId: string } }
+  LIBRARY_TAGS: { request: Empty; response: { tags: string[] } }
+  FETCH_ASSET: { request: { url: string; maxBytes: number }; response: { dataUrl: string; bytes: number } }
+  RESPONSIVE_START: { request: Empty; response: Empty }
+  RESPONSIVE_EMULATE: { request: { width: number; height: number }; response: Empty }
+  RESPONSIVE_END: { request: Empty; response: Empty }
+  STATES_START: { request: Empty; response: Empty }
+  STATES_FORCE: { request: { state: ElementState }; response: Empty }
+  STATES_END: { request: Empty; response: Empty }
+  FINGERPRINT: { request: Empty; response: { technical: TechnicalContext } }
+  RECORD_START: { request: { request: RecordingRequest }; response: Empty }
+  RECORD_STOP: { request: Empty; response: { recording: Recording } }
+  COMMANDS_LIST: { request: Empty; response: { bindings: Record<CaptureCommand, string> } }
+  OPEN_LIBRARY: { request: Empty; response: Empty }
+  AUTH_STATUS: { request: { profileId: string }; response: { status: AuthStatus } }
+  AUTH_SIGN_IN: { request: { profileId: string }; response: { status: AuthStatus } }
+  AUTH_SET_API_KEY: { request: { profileId: string; apiKey: string; name: string; email: string }; response: { status: AuthStatus } }
+  AUTH_SIGN_OUT: { request: { profileId: string }; response: { status: AuthStatus } }
+}
+
+export type RequestType = keyof RequestMap
+export type RequestOf<T extends RequestType> = RequestMap[T]["request"]
+export type ResponseOf<T extends RequestType> = RequestMap[T]["response"]
+export type ProgressOf<T extends RequestType> = RequestMap[T] extends { progress: infer P } ? P : never
+
+export type ProtocolErrorCode =
+  | "TIMEOUT" // no result (or progress) within the request's timeout
+  | "CANCELLED" // the caller aborted, or the worker saw the caller go away
+  | "DISCONNECTED" // the worker went away, usually an extension reload
+  | "VERSION_MISMATCH"
+  | "UNKNOWN_REQUEST"
+  | "NOT_ALLOWED"
+  | "FAILED" // the handler threw, the message says why
+
+export class ProtocolError extends Error {
+  constructor(readonly code: ProtocolErrorCode, message: string) {
+    super(message)
+  }
+}
+
+// How long a request may go without a result or a progress event
+const DEFAULT_TIMEOUT_MS = 30_000
+const REQUEST_TIMEOUTS: Partial<Record<RequestType, number>> = {
+  CAPTURE: 10_000,
+  CAPTURE_FULL_PAGE: 20_000,
+  CAPTURE_REGION: 20_000,
+  FINGERPRINT: 10_000,
+  COMMANDS_LIST: 5_000,
+  UPLOAD_ENQUEUE: 60_000, // re-encodes the image
+  RECORD_STOP: 60_000, // the offscreen document finishes the file
+  AUTH_SIGN_IN: 5 * 60_000 // waits for the user in the sign-in window
+}
+
+type WireMessage =
+  | { kind: "request"; v: number; type: RequestType; payload: unknown }
+  | { kind: "ack"; seq: number }
+  | { kind: "progress"; seq: number; progress: unknown }
+  | { kind: "result"; ok: true; data: unknown }
+  | { kind: "result"; ok: false; error: { code: ProtocolErrorCode; message: string } }
+
+export function isCancelled(error: unknown) {
+  return error instanceof ProtocolError && error.code === "CANCELLED"
+}
+
+// --- Caller side (overlay and extension pages) ---
+
+export type RequestOptions<T extends RequestType> = {
+  timeoutMs?: number
+  signal?: AbortSignal
+  // The worker waits for the returned promise before it goes on, see CAPTURE_FULL_PAGE
+  onProgress?: (progress: ProgressOf<T>) => void | Promise<void>
+}
+
+/**
+ * Sends one request to the background worker and resolves with its response. Failures reject
+ * with a ProtocolError. Aborting the signal disconnects the port, which aborts the handler.
+ */
+export function request<T extends RequestType>(
+  type: T,
+  payload: RequestOf<T>,
+  options: RequestOptions<T> = {}
+): Promise<ResponseOf<T>> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new ProtocolError("CANCELLED", `${type} was cancelled`))
+      return
+    }
+
+    const timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUTS[type] ?? DEFAULT_TIMEOUT_MS
+    const port = chrome.runtime.connect({ name: PORT_NAME })
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let settled = false
+
+    const finish = (error: ProtocolError | null, data?: ResponseOf<T>) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      options.signal?.removeEventListener("abort", onAbort)
+      port.disconnect()
+      if (error) reject(error)
+      else resolve(data)
+    }
+    const armTimer = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => finish(new ProtocolError("TIMEOUT", `${type} timed out after ${timeoutMs / 1000}s`)), timeoutMs)
+    }
+    const onAbort = () => finish(new ProtocolError("CANCELLED", `${type} was cancelled`))
+
+    options.signal?.addEventListener("abort", onAbort)
+    port.onMessage.addListener(async (msg: WireMessage) => {
+      if (msg.kind === "progress") {
+        armTimer()
+        try {
+          await options.onProgress?.(msg.progress as ProgressOf<T>)
+        } catch (error) {
+          console.error(`❌ ${type} progress handler failed:`, error)
+        } finally {
+          // The worker waits for the ack, without it the request would only end by timing out
+          if (!settled) port.postMessage({ kind: "ack", seq: msg.seq } satisfies WireMessage)
+        }
+      } else if (msg.kind === "result") {
+        if ("error" in msg) finish(new ProtocolError(msg.error.code, msg.error.message))
+        else finish(null, msg.data as ResponseOf<T>)
+      }
+    })
+    port.onDisconnect.addListener(() => {
+      finish(new ProtocolError("DISCONNECTED", chrome.runtime.lastError?.message ?? "Background worker disconnected"))
+    })
+
+    port.postMessage({ kind: "request", v: PROTOCOL_VERSION, type, payload } satisfies WireMessage)
+    armTimer()
+  })
+}
+
+// --- Background side ---
+
+export type RequestContext<T extends RequestType> = {
+  sender: chrome.runtime.MessageSender
+  signal: AbortSignal // aborted when the caller cancels, times out or goes away
+  progress: (progress: ProgressOf<T>) => Promise<void> // resolves once the caller has handled it
+}
+
+export type RequestHandlers = {
+  [T in RequestType]: (payload: RequestOf<T>, context: RequestContext<T>) => Promise<ResponseOf<T>>
+}
+
+export function serveRequests(handlers: RequestHandlers) {
+  chrome.runtime.onConnect.addListener((port) => {
+    if (port.name !== PORT_NAME) return
+
+    const controller = new AbortController()
+    const pendingAcks = new Map<number, () => void>()
+    let seq = 0
+
+    const post = (msg: WireMessage) => {
+      if (controller.signal.aborted) return
+      try {
+        port.postMessage(msg)
+      } catch {
+        // Disconnected in between, onDisconnect aborts the handler
+      }
+    }
+    const progress = (value: unknown) => new Promise<void>((resolve) => {
+      if (controller.signal.aborted) return resolve()
+      seq += 1
+      pendingAcks.set(seq, resolve)
+      post({ kind: "progress", seq, progress: value })
+    })
+
+    port.onDisconnect.addListener(() => {
+      controller.abort()
+      pendingAcks.forEach((resolve) => resolve())
+      pendingAcks.clear()
+    })
+
+    port.onMessage.addListener(async (msg: WireMessage) => {
+      if (msg.kind === "ack") {
+        pendingAcks.get(msg.seq)?.()
+        pendingAcks.delete(msg.seq)
+        return
+      }
+      if (msg.kind !== "request") return
+
+      console.log("📨 Background received request:", msg.type, "from:", port.sender?.url)
+      try {
+        if (msg.v !== PROTOCOL_VERSION) {
+          throw new ProtocolError("VERSION_MISMATCH", `Protocol ${msg.v} requested, the extension speaks ${PROTOCOL_VERSION}`)
+        }
+        const handler = handlers[msg.type] as (payload: unknown, context: RequestContext<RequestType>) => Promise<unknown>
+        if (!handler) throw new ProtocolError("UNKNOWN_REQUEST", `Unknown request: ${msg.type}`)
+        const data = await handler(msg.payload, { sender: port.sender, signal: controller.signal, progress })
+        post({ kind: "result", ok: true, data })
+      } catch (error) {
+        const code = error instanceof ProtocolError ? error.code : controller.signal.aborted ? "CANCELLED" : "FAILED"
+        if (code === "FAILED") console.error(`❌ ${msg.type} failed:`, error)
+        post({ kind: "result", ok: false, error: { code, message: error?.message ?? String(error) } })
+      }
+    })
+  })
+}
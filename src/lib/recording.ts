@@ -0,0 +1,126 @@
+// src/lib/recording.ts
+// Micro-interaction recordings: a user-drawn region of the tab filmed for a few seconds.
+// The background worker gets a tabCapture stream id for the tab and hands it to an
+// offscreen document (tabs/offscreen.html), the only place an MV3 extension can hold the
+// MediaStream. There the stream is cropped to the region on a canvas and recorded as WebM.
+
+import { blobToDataUrl } from "~lib/data-url"
+
+export type RecordingRequest = {
+  rect: { x: number; y: number; w: number; h: number } // viewport CSS pixels
+  viewport: { width: number; height: number; devicePixelRatio: number }
+}
+
+export type Recording = {
+  dataUrl: string // video/webm
+  durationMs: number
+  width: number
+  height: number
+}
+
+export const MAX_RECORDING_MS = 15_000
+
+const OFFSCREEN_URL = "tabs/offscreen.html"
+
+const FRAME_RATE = 30
+
+// --- Background side ---
+
+export async function startRecording(tabId: number, request: RecordingRequest) {
+  // Needs the extension to have been invoked on the tab, e.g. from the popup
+  const streamId = await chrome.tabCapture.getMediaStreamId({ targetTabId: tabId })
+  await ensureOffscreenDocument()
+  const res = await chrome.runtime.sendMessage({ target: "offscreen", type: "OFFSCREEN_RECORD_START", streamId, request })
+  if (!res?.ok) throw new Error(res?.error ?? "unknown")
+}
+
+// Also used to cancel, the document is closed either way
+export async function stopRecording(): Promise<Recording> {
+  try {
+    const res = await chrome.runtime.sendMessage({ target: "offscreen", type: "OFFSCREEN_RECORD_STOP" })
+    if (!res?.ok) throw new Error(res?.error ?? "unknown")
+    return res.recording
+  } finally {
+    await chrome.offscreen.closeDocument().catch(() => {})
+  }
+}
+
+async function ensureOffscreenDocument() {
+  const existing = await chrome.runtime.getContexts({ contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT] })
+  if (existing.length) return
+  await chrome.offscreen.createDocument({
+    url: OFFSCREEN_URL,
+    reasons: [chrome.offscreen.Reason.USER_MEDIA],
+    justification: "Records a region of the tab for a micro-interaction clip"
+  })
+}
+
+// --- Offscreen side ---
+
+let active: {
+  recorder: MediaRecorder
+  stream: MediaStream
+  canvas: HTMLCanvasElement
+  timer: number
+  chunks: Blob[]
+  startedAt: number
+} | null = null
+
+export async function recordTab(streamId: string, { rect, viewport }: RecordingRequest) {
+  if (active) throw new Error("Already recording")
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: false,
+    video: {
+      mandatory: {
+        chromeMediaSource: "tab",
+        chromeMediaSourceId: streamId,
+        maxWidth: Math.round(viewport.width * viewport.devicePixelRatio),
+        maxHeight: Math.round(viewport.height * viewport.devicePixelRatio),
+        maxFrameRate: FRAME_RATE
+      }
+    } as MediaTrackConstraints
+  })
+  const video = document.createElement("video")
+  video.srcObject = stream
+  video.muted = true
+  await video.play()
+
+  // The stream may be scaled down from device pixels, so measure instead of trusting the DPR
+  const scale = video.videoWidth / viewport.width
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(2, Math.round(rect.w * scale))
+  canvas.height = Math.max(2, Math.round(rect.h * scale))
+  const ctx = canvas.getContext("2d")!
+  const draw = () => ctx.drawImage(video, rect.x * scale, rect.y * scale, rect.w * scale, rect.h * scale, 0, 0, canvas.width, canvas.height)
+  draw()
+
+  const recorder = new MediaRecorder(canvas.captureStream(FRAME_RATE), {
+    mimeType: MediaRecorder.isTypeSupported("video/webm;codecs=vp9") ? "video/webm;codecs=vp9" : "video/webm"
+  })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data)
+  }
+  recorder.start()
+  // Offscreen documents aren't rendered, so requestAnimationFrame never fires here
+  const timer = window.setInterval(draw, 1000 / FRAME_RATE)
+  active = { recorder, stream, canvas, timer, chunks, startedAt: Date.now() }
+  console.log("🎬 Recording started:", canvas.width, "x", canvas.height)
+}
+
+export async function finishRecording(): Promise<Recording> {
+  if (!active) throw new Error("Not recording")
+  const { recorder, stream, canvas, timer, chunks, startedAt } = active
+  active = null
+
+  const stopped = new Promise((resolve) => { recorder.onstop = resolve })
+  recorder.stop()
+  await stopped
+  clearInterval(timer)
+  stream.getTracks().forEach((track) => track.stop())
+
+  const blob = new Blob(chunks, { type: "video/webm" })
+  console.log("🎬 Recording finished, bytes:", blob.size)
+  return { dataUrl: await blobToDataUrl(blob), durationMs: Date.now() - startedAt, width: canvas.width, height: canvas.height }
+}
@@ -0,0 +1,304 @@
+// src/lib/redaction.ts
+// PII redaction for captures. Runs in the content script: finds emails, phone numbers,
+// card numbers, personnummer, custom patterns, sensitive form fields and user-defined
+// selectors, masks them on the live page while a screenshot is taken and restores the
+// page afterwards. DOM snippets are redacted on the serialized clone instead.
+//
+// Live masking never restructures the page: text is swapped inside the existing text
+// nodes (placeholder style) or covered by boxes in a separate layer (blur style), so
+// frameworks holding on to the nodes don't notice.
+
+export type BuiltinPattern = "email" | "phone" | "card" | "personnummer"
+
+export type RedactionKind = BuiltinPattern | "custom" | "field" | "selector"
+
+export type RedactionSettings = {
+  enabled: boolean
+  style: "blur" | "placeholder"
+  patterns: Record<BuiltinPattern, boolean>
+  customPatterns: string[] // regular expressions
+  selectors: string[]
+}
+
+// Serializable summary shown in the preview. `key` identifies the item across
+// captures, so the user's per-item overrides survive a re-capture.
+export type RedactionItem = { key: string; kind: RedactionKind; label: string }
+
+type TextTarget = RedactionItem & { node: Text; start: number; end: number }
+type ElementTarget = RedactionItem & { el: Element }
+export type RedactionTarget = TextTarget | ElementTarget
+
+const STORAGE_KEY = "redactionSettings"
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  style: "blur",
+  patterns: { email: true, phone: true, card: true, personnummer: true },
+  customPatterns: [],
+  selectors: []
+}
+
+const PLACEHOLDERS: Record<RedactionKind, string> = {
+  email: "[email]",
+  phone: "[phone]",
+  card: "[card]",
+  personnummer: "[personnummer]",
+  custom: "[redacted]",
+  field: "[redacted]",
+  selector: "[redacted]"
+}
+
+// Ordered by priority: when matches overlap the earlier pattern wins
+const BUILTIN_PATTERNS: Array<{ kind: BuiltinPattern; regex: RegExp; valid?: (match: string) => boolean }> = [
+  { kind: "email", regex: /[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi },
+  { kind: "card", regex: /\b(?:\d[ -]?){12,18}\d\b/g, valid: (m) => luhn(digits(m)) },
+  { kind: "card", regex: /(?:[*•xX]{2,}[ -]?){1,3}\d{4}\b/g }, // masked fragments like •••• 4242
+  { kind: "personnummer", regex: /\b(?:19|20)?\d{6}[-+]?\d{4}\b/g, valid: isPersonnummer },
+  {
+    kind: "phone",
+    regex: /(?:\+|\b)\d[\d\s().-]{6,}\d\b/g,
+    // Dates and times ("2024-01-15 12:30") look a lot like phone numbers
+    valid: (m) => digits(m).length >= 8 && digits(m).length <= 15 && !/^\d{4}-\d{2}-\d{2}/.test(m)
+  }
+]
+
+// autocomplete tokens whose fields are always personal, whatever their value
+const SENSITIVE_AUTOCOMPLETE = /\b(name|given-name|family-name|email|tel|street-address|address-line\d|postal-code|cc-\w+|bday\S*|username)\b/
+
+const SKIPPED_PARENTS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "TEXTAREA"])
+
+export async function getRedactionSettings(): Promise<RedactionSettings> {
+  const stored = await chrome.storage.sync.get(STORAGE_KEY)
+  return { ...DEFAULT_REDACTION_SETTINGS, ...(stored[STORAGE_KEY] as Partial<RedactionSettings> | undefined) }
+}
+
+export function saveRedactionSettings(settings: RedactionSettings) {
+  return chrome.storage.sync.set({ [STORAGE_KEY]: settings })
+}
+
+export function onRedactionSettingsChanged(callback: (settings: RedactionSettings) => void) {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    if (areaName === "sync" && changes[STORAGE_KEY]) getRedactionSettings().then(callback)
+  }
+  chrome.storage.onChanged.addListener(listener)
+  return () => chrome.storage.onChanged.removeListener(listener)
+}
+
+/**
+ * Finds everything under `root` that should be masked. Works on live nodes and on
+ * detached clones alike.
+ */
+export function detectRedactions(root: Element, settings: RedactionSettings): RedactionTarget[] {
+  if (!settings.enabled) return []
+  const targets: RedactionTarget[] = []
+  const patterns = compilePatterns(settings)
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => SKIPPED_PARENTS.has(node.parentElement?.tagName ?? "")
+      ? NodeFilter.FILTER_REJECT
+      : NodeFilter.FILTER_ACCEPT
+  })
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    for (const match of findMatches(node.data, patterns)) {
+      targets.push({ key: `${match.kind}:${match.text}`, kind: match.kind, label: match.text, node, start: match.start, end: match.end })
+    }
+  }
+
+  root.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>("input, textarea").forEach((el, i) => {
+    if (!isSensitiveField(el, patterns)) return
+    const name = el.getAttribute("name") || el.id || el.getAttribute("autocomplete") || el.type
+    targets.push({ key: `field:${name}:${i}`, kind: "field", label: `${name} field`, el })
+  })
+
+  for (const selector of settings.selectors) {
+    let matches: Element[] = []
+    try {
+      matches = Array.from(root.querySelectorAll(selector))
+      if (root.matches(selector)) matches.unshift(root)
+    } catch {
+      console.warn("⚠️ Invalid redaction selector:", selector)
+    }
+    matches.forEach((el, i) => {
+      const text = el.textContent?.trim().slice(0, 40)
+      targets.push({ key: `selector:${selector}:${i}`, kind: "selector", label: text ? `${selector}: ${text}` : selector, el })
+    })
+  }
+
+  return targets
+}
+
+// One entry per key, in the order they were found
+export function summarizeRedactions(targets: RedactionTarget[]): RedactionItem[] {
+  const seen = new Map<string, RedactionItem>()
+  for (const { key, kind, label } of targets) {
+    if (!seen.has(key)) seen.set(key, { key, kind, label })
+  }
+  return [...seen.values()]
+}
+
+// Client rects of a target, used for blur boxes and to limit a lasso capture to what it covers
+export function targetRects(target: RedactionTarget): DOMRect[] {
+  if ("node" in target) {
+    const range = document.createRange()
+    range.setStart(target.node, target.start)
+    range.setEnd(target.node, target.end)
+    return Array.from(range.getClientRects())
+  }
+  return [target.el.getBoundingClientRect()]
+}
+
+/**
+ * Masks the targets on the live page (minus the keys in `skip`) and returns a function
+ * that puts everything back exactly as it was. Boxes are placed for the current scroll
+ * position, captures that scroll have to restore and apply again after every scroll.
+ */
+export function applyRedactions(targets: RedactionTarget[], settings: RedactionSettings, skip: Set<string>): () => void {
+  const active = targets.filter((t) => !skip.has(t.key))
+  const restorers: Array<() => void> = []
+
+  const layer = document.createElement("div")
+  layer.setAttribute("data-grebref-redactions", "")
+  layer.style.cssText = "position:absolute;top:0;left:0;width:0;height:0;z-index:2147483646;pointer-events:none;"
+
+  // Boxes first: placeholder text below changes the layout they are measured from
+  const boxTargets = settings.style === "blur" ? active : active.filter((t) => !("node" in t))
+  for (const target of boxTargets) {
+    for (const rect of targetRects(target)) {
+      if (!rect.width || !rect.height) continue
+      layer.appendChild(maskBox(rect, settings.style, PLACEHOLDERS[target.kind]))
+    }
+  }
+  document.documentElement.appendChild(layer)
+  restorers.push(() => layer.remove())
+
+  if (settings.style === "placeholder") {
+    restorers.push(replaceTextMatches(active.filter((t): t is TextTarget => "node" in t)))
+  }
+
+  return () => restorers.reverse().forEach((restore) => restore())
+}
+
+/**
+ * Redacts a detached clone before it is serialized. Unlike the live page we can change
+ * the clone freely, and we have to: a blur would leave the text in the HTML.
+ */
+export function redactClone(clone: Element, settings: RedactionSettings, skip: Set<string>): RedactionItem[] {
+  const targets = detectRedactions(clone, settings)
+  const active = targets.filter((t) => !skip.has(t.key))
+
+  replaceTextMatches(active.filter((t): t is TextTarget => "node" in t))
+  for (const target of active) {
+    if ("node" in target) continue
+    if (target.el instanceof HTMLInputElement || target.el instanceof HTMLTextAreaElement) {
+      target.el.setAttribute("value", PLACEHOLDERS.field)
+      target.el.textContent = target.el instanceof HTMLTextAreaElement ? PLACEHOLDERS.field : ""
+    } else {
+      target.el.textContent = PLACEHOLDERS[target.kind]
+    }
+  }
+
+  return summarizeRedactions(targets)
+}
+
+// Swaps matches inside their text nodes (back to front so offsets stay valid)
+function replaceTextMatches(targets: TextTarget[]): () => void {
+  const byNode = new Map<Text, TextTarget[]>()
+  for (const t of targets) byNode.set(t.node, [...(byNode.get(t.node) ?? []), t])
+
+  const originals = new Map<Text, string>()
+  byNode.forEach((nodeTargets, node) => {
+    originals.set(node, node.data)
+    let data = node.data
+    for (const t of [...nodeTargets].sort((a, b) => b.start - a.start)) {
+      data = data.slice(0, t.start) + PLACEHOLDERS[t.kind] + data.slice(t.end)
+    }
+    node.data = data
+  })
+
+  return () => originals.forEach((data, node) => {
+    node.data = data
+  })
+}
+
+function maskBox(rect: DOMRect, style: RedactionSettings["style"], placeholder: string) {
+  const box = document.createElement("div")
+  box.style.cssText = [
+    "position:absolute",
+    `left:${rect.left + window.scrollX}px`,
+    `top:${rect.top + window.scrollY}px`,
+    `width:${rect.width}px`,
+    `height:${rect.height}px`,
+    "border-radius:2px",
+    "overflow:hidden",
+    style === "blur"
+      ? "backdrop-filter:blur(6px);-webkit-backdrop-filter:blur(6px);background:rgba(128,128,128,0.35)"
+      : "background:#d1d5db;color:#374151;font:600 11px/1 sans-serif;display:flex;align-items:center;justify-content:center"
+  ].join(";")
+  if (style === "placeholder") box.textContent = placeholder
+  return box
+}
+
+type CompiledPattern = { kind: BuiltinPattern | "custom"; regex: RegExp; valid?: (match: string) => boolean }
+
+function compilePatterns(settings: RedactionSettings): CompiledPattern[] {
+  const patterns: CompiledPattern[] = BUILTIN_PATTERNS.filter((p) => settings.patterns[p.kind])
+  for (const source of settings.customPatterns) {
+    try {
+      patterns.push({ kind: "custom", regex: new RegExp(source, "g") })
+    } catch {
+      console.warn("⚠️ Invalid redaction pattern:", source)
+    }
+  }
+  return patterns
+}
+
+function findMatches(text: string, patterns: CompiledPattern[]) {
+  const taken: Array<{ kind: CompiledPattern["kind"]; text: string; start: number; end: number }> = []
+  for (const { kind, regex, valid } of patterns) {
+    regex.lastIndex = 0
+    for (const m of text.matchAll(regex)) {
+      if (!m[0] || (valid && !valid(m[0]))) continue
+      const start = m.index!
+      const end = start + m[0].length
+      if (taken.some((t) => start < t.end && end > t.start)) continue
+      taken.push({ kind, text: m[0], start, end })
+    }
+  }
+  return taken
+}
+
+function isSensitiveField(el: HTMLInputElement | HTMLTextAreaElement, patterns: CompiledPattern[]) {
+  if (el instanceof HTMLInputElement && ["hidden", "submit", "button", "checkbox", "radio", "range", "color", "file", "image", "reset"].includes(el.type)) {
+    return false
+  }
+  if (el instanceof HTMLInputElement && ["password", "email", "tel"].includes(el.type)) return true
+  if (SENSITIVE_AUTOCOMPLETE.test(el.getAttribute("autocomplete") ?? "")) return true
+  const value = el.value || el.getAttribute("value") || ""
+  return !!value && findMatches(value, patterns).length > 0
+}
+
+function digits(s: string) {
+  return s.replace(/\D/g, "")
+}
+
+function luhn(number: string) {
+  let sum = 0
+  for (let i = 0; i < number.length; i++) {
+    let d = Number(number[number.length - 1 - i])
+    if (i % 2 === 1) {
+      d *= 2
+      if (d > 9) d -= 9
+    }
+    sum += d
+  }
+  return number.length > 0 && sum % 10 === 0
+}
+
+// YYMMDD-NNNC or YYYYMMDD-NNNC with a valid date part (day + 60 for samordningsnummer) and Luhn check digit
+function isPersonnummer(match: string) {
+  const ten = digits(match).slice(-10)
+  const month = Number(ten.slice(2, 4))
+  const day = Number(ten.slice(4, 6))
+  const validDay = (day >= 1 && day <= 31) || (day >= 61 && day <= 91)
+  return month >= 1 && month <= 12 && validDay && luhn(ten)
+}
@@ -0,0 +1,79 @@
+// src/lib/responsive.ts
+// Breakpoint captures of one component. The overlay drives the loop (it re-locates the
+// element and masks PII at each width); the background worker emulates the viewport
+// width and takes the screenshots through the debugger protocol, which can capture a
+// clip outside the visible viewport and go wider than the user's screen.
+
+export type ResponsiveSettings = {
+  widths: number[]
+}
+
+// One frame per breakpoint, as it is sent in `payload.frames`
+export type ResponsiveFrame = {
+  width: number
+  base64_file: string | null // null when the element isn't rendered at this width
+  context: {
+    viewport: { width: number; height: number; devicePixelRatio: number }
+  }
+}
+
+const STORAGE_KEY = "responsiveSettings"
+
+export const DEFAULT_RESPONSIVE_SETTINGS: ResponsiveSettings = {
+  widths: [375, 768, 1280, 1920]
+}
+
+// Below this width the page is emulated as a mobile device (viewport meta, overlay scrollbars)
+const MOBILE_MAX_WIDTH = 767
+
+const PROTOCOL_VERSION = "1.3"
+
+export async function getResponsiveSettings(): Promise<ResponsiveSettings> {
+  const stored = await chrome.storage.sync.get(STORAGE_KEY)
+  const settings = { ...DEFAULT_RESPONSIVE_SETTINGS, ...(stored[STORAGE_KEY] as Partial<ResponsiveSettings> | undefined) }
+  return { ...settings, widths: uniqueWidths(settings.widths) }
+}
+
+export function saveResponsiveSettings(settings: ResponsiveSettings) {
+  return chrome.storage.sync.set({ [STORAGE_KEY]: { ...settings, widths: uniqueWidths(settings.widths) } })
+}
+
+// One frame per width, a repeated width would only capture the same frame twice
+function uniqueWidths(widths: number[]) {
+  return [...new Set(widths)]
+}
+
+// --- Background side ---
+
+export async function startEmulation(tabId: number) {
+  await chrome.debugger.attach({ tabId }, PROTOCOL_VERSION)
+}
+
+export async function emulateWidth(tabId: number, width: number, height: number) {
+  await chrome.debugger.sendCommand({ tabId }, "Emulation.setDeviceMetricsOverride", {
+    width,
+    height,
+    deviceScaleFactor: 0, // keep the real one
+    mobile: width <= MOBILE_MAX_WIDTH
+  })
+}
+
+// `clip` is in CSS pixels relative to the document
+export async function captureClip(tabId: number, clip: { x: number; y: number; width: number; height: number }): Promise<string> {
+  const result = await chrome.debugger.sendCommand({ tabId }, "Page.captureScreenshot", {
+    format: "png",
+    clip: { ...clip, scale: 1 },
+    captureBeyondViewport: true
+  }) as { data: string }
+  return `data:image/png;base64,${result.data}`
+}
+
+// Safe to call when nothing is attached, e.g. after the tab navigated away
+export async function stopEmulation(tabId: number) {
+  try {
+    await chrome.debugger.sendCommand({ tabId }, "Emulation.clearDeviceMetricsOverride")
+    await chrome.debugger.detach({ tabId })
+  } catch (error) {
+    console.warn("⚠️ Stopping viewport emulation:", error)
+  }
+}
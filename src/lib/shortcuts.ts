@@ -0,0 +1,102 @@
+// src/lib/shortcuts.ts
+// Keyboard shortcuts for the capture modes. The real bindings are chrome.commands, declared
+// in the manifest and rebound by the user at chrome://extensions/shortcuts; the background
+// forwards them to the tab's overlay as RUN_COMMAND, so they work without page focus and
+// never take keys from the page. The in-page fallback listens for keydown in the page itself
+// and is only active on sites the user opted in to.
+
+export type CaptureCommand = "capture-image" | "capture-dom" | "capture-fullpage" | "record"
+
+export const CAPTURE_COMMANDS: CaptureCommand[] = ["capture-image", "capture-dom", "capture-fullpage", "record"]
+
+export const COMMAND_LABELS: Record<CaptureCommand, string> = {
+  "capture-image": "image",
+  "capture-dom": "DOM",
+  "capture-fullpage": "full page",
+  record: "record"
+}
+
+export type ShortcutSettings = {
+  inPageSites: string[] // hostnames where the in-page fallback is on
+  inPageBindings: Record<CaptureCommand, string> // "Ctrl+S", "Alt+Shift+D" …
+}
+
+const STORAGE_KEY = "shortcutSettings"
+
+export const DEFAULT_SHORTCUT_SETTINGS: ShortcutSettings = {
+  inPageSites: [],
+  inPageBindings: {
+    "capture-image": "Ctrl+S",
+    "capture-dom": "Ctrl+D",
+    "capture-fullpage": "Ctrl+F",
+    record: "Ctrl+M"
+  }
+}
+
+export async function getShortcutSettings(): Promise<ShortcutSettings> {
+  const stored = await chrome.storage.sync.get(STORAGE_KEY)
+  const settings = stored[STORAGE_KEY] as Partial<ShortcutSettings> | undefined
+  return {
+    ...DEFAULT_SHORTCUT_SETTINGS,
+    ...settings,
+    inPageBindings: { ...DEFAULT_SHORTCUT_SETTINGS.inPageBindings, ...settings?.inPageBindings }
+  }
+}
+
+export function saveShortcutSettings(settings: ShortcutSettings) {
+  return chrome.storage.sync.set({ [STORAGE_KEY]: settings })
+}
+
+export function onShortcutSettingsChanged(callback: (settings: ShortcutSettings) => void) {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    if (areaName === "sync" && changes[STORAGE_KEY]) getShortcutSettings().then(callback)
+  }
+  chrome.storage.onChanged.addListener(listener)
+  return () => chrome.storage.onChanged.removeListener(listener)
+}
+
+export async function setInPageShortcuts(hostname: string, enabled: boolean) {
+  const settings = await getShortcutSettings()
+  const sites = settings.inPageSites.filter((site) => site !== hostname)
+  await saveShortcutSettings({ ...settings, inPageSites: enabled ? [...sites, hostname] : sites })
+}
+
+// --- Content side ---
+
+/**
+ * Whether a keydown matches a binding like "Ctrl+Shift+S". Letters and digits are compared
+ * by physical key, so Alt combinations that type a special character still match.
+ */
+export function matchesBinding(e: KeyboardEvent, binding: string): boolean {
+  const parts = binding.split("+").map((part) => part.trim().toLowerCase()).filter(Boolean)
+  const key = parts.pop()
+  if (!key) return false
+  const pressed = /^(?:Key[A-Z]|Digit\d)$/.test(e.code) ? e.code.slice(-1).toLowerCase() : e.key.toLowerCase()
+  return pressed === key &&
+    e.ctrlKey === parts.includes("ctrl") &&
+    e.altKey === parts.includes("alt") &&
+    e.shiftKey === parts.includes("shift") &&
+    e.metaKey === (parts.includes("meta") || parts.includes("cmd") || parts.includes("command"))
+}
+
+// --- Background side ---
+
+export function initCommands() {
+  chrome.commands.onCommand.addListener((command, tab) => {
+    if (!tab?.id) return
+    chrome.tabs.sendMessage(tab.id, { type: "RUN_COMMAND", command }).catch((error) => {
+      // Pages the content script can't run on (chrome://, the web store) or tabs opened before install
+      console.warn("⚠️ No overlay to run", command, "in:", error)
+    })
+  })
+}
+
+// Current chrome.commands bindings, "" for a command the user left unbound
+export async function listCommandBindings(): Promise<Record<CaptureCommand, string>> {
+  const commands = await chrome.commands.getAll()
+  const bindings = Object.fromEntries(CAPTURE_COMMANDS.map((command) => [command, ""])) as Record<CaptureCommand, string>
+  for (const { name, shortcut } of commands) {
+    if (CAPTURE_COMMANDS.includes(name as CaptureCommand)) bindings[name as CaptureCommand] = shortcut ?? ""
+  }
+  return bindings
+}
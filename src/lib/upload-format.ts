@@ -0,0 +1,114 @@
+// src/lib/upload-format.ts
+// File format of uploaded images. Captures stay PNG in the overlay and the library; the
+// background worker re-encodes the image when a clip is queued (OffscreenCanvas works in
+// the worker), so the format can be changed without touching anything already saved.
+
+import { dataUrlToBlob } from "~lib/data-url"
+
+export type UploadFormat = "png" | "webp-lossless" | "webp" | "jpeg"
+
+export type UploadFormatSettings = {
+  format: UploadFormat
+  quality: number // 0–1, for lossy WebP and JPEG
+  maxDimension: number | null // longest side in px, larger images are scaled down
+}
+
+// What the backend is told about the file part, annotations stay in the original's pixels
+export type EncodedFileInfo = {
+  contentType: string
+  width: number
+  height: number
+  scale: number // encoded size / captured size
+}
+
+export const UPLOAD_FORMAT_LABELS: Record<UploadFormat, string> = {
+  png: "PNG",
+  "webp-lossless": "WebP (lossless)",
+  webp: "WebP",
+  jpeg: "JPEG"
+}
+
+const STORAGE_KEY = "uploadFormatSettings"
+
+export const DEFAULT_UPLOAD_FORMAT_SETTINGS: UploadFormatSettings = {
+  format: "png",
+  quality: 0.85,
+  maxDimension: null
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "video/webm": "webm"
+}
+
+export async function getUploadFormatSettings(): Promise<UploadFormatSettings> {
+  const stored = await chrome.storage.sync.get(STORAGE_KEY)
+  return { ...DEFAULT_UPLOAD_FORMAT_SETTINGS, ...(stored[STORAGE_KEY] as Partial<UploadFormatSettings> | undefined) }
+}
+
+export function saveUploadFormatSettings(settings: UploadFormatSettings) {
+  return chrome.storage.sync.set({ [STORAGE_KEY]: settings })
+}
+
+export function fileExtension(contentType: string) {
+  return FILE_EXTENSIONS[contentType] ?? "bin"
+}
+
+// --- Background side ---
+
+/**
+ * The capture as a Blob in the chosen format. Recordings and animated images are passed
+ * through as they are, re-encoding them through a canvas would keep only the first frame.
+ */
+export async function encodeUploadFile(
+  dataUrl: string,
+  settings: UploadFormatSettings
+): Promise<{ blob: Blob; info: EncodedFileInfo }> {
+  const original = await dataUrlToBlob(dataUrl)
+  if (!["image/png", "image/jpeg", "image/webp"].includes(original.type) || await isAnimated(original)) {
+    return { blob: original, info: { contentType: original.type, width: 0, height: 0, scale: 1 } }
+  }
+
+  const bitmap = await createImageBitmap(original)
+  const longest = Math.max(bitmap.width, bitmap.height)
+  const scale = settings.maxDimension && longest > settings.maxDimension ? settings.maxDimension / longest : 1
+  const width = Math.max(1, Math.round(bitmap.width * scale))
+  const height = Math.max(1, Math.round(bitmap.height * scale))
+
+  // Nothing to do, sending the captured PNG as is also keeps its exact bytes
+  if (scale === 1 && settings.format === "png" && original.type === "image/png") {
+    bitmap.close()
+    return { blob: original, info: { contentType: "image/png", width, height, scale } }
+  }
+
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext("2d")
+  if (settings.format === "jpeg") {
+    // JPEG has no alpha, transparent areas would turn black
+    ctx.fillStyle = "#fff"
+    ctx.fillRect(0, 0, width, height)
+  }
+  ctx.imageSmoothingQuality = "high"
+  ctx.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+
+  // Chrome's WebP encoder switches to lossless at quality 1
+  const blob = settings.format === "png"
+    ? await canvas.convertToBlob({ type: "image/png" })
+    : await canvas.convertToBlob({
+      type: settings.format === "jpeg" ? "image/jpeg" : "image/webp",
+      quality: settings.format === "webp-lossless" ? 1 : settings.quality
+    })
+  console.log(`🗜️ Upload file encoded as ${blob.type}: ${original.size} → ${blob.size} bytes`)
+  return { blob, info: { contentType: blob.type, width, height, scale } }
+}
+
+// Animated WebP (the recordings' export format) sets the animation flag in its VP8X header
+async function isAnimated(blob: Blob) {
+  if (blob.type !== "image/webp") return false
+  const header = new Uint8Array(await blob.slice(0, 21).arrayBuffer())
+  return String.fromCharCode(...header.subarray(12, 16)) === "VP8X" && (header[20] & 0x02) !== 0
+}
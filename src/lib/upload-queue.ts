@@ -0,0 +1,419 @@
+// src/lib/upload-queue.ts
+// Durable upload queue for the background worker. Clips are written to IndexedDB
+// before we try to send them, retried with exponential backoff and picked up
+// again after a browser restart or when the connection comes back.
+// Clips go out as multipart/form-data: the metadata as a JSON part and every image (the
+// capture plus breakpoint and state captures) as a binary part in the user's upload format.
+// A capture over one chunk is sent ahead of the metadata in a resumable session, see sendChunks.
+
+import { AuthRequiredError, authorizedFetch, getUploader } from "~lib/auth"
+import { openDb, requestToPromise, UPLOADS_STORE, withStore } from "~lib/db"
+import { markClipSynced } from "~lib/library"
+import { getActiveProfile, getProfile, libraryLink, type Profile } from "~lib/profiles"
+import { encodeUploadFile, fileExtension, getUploadFormatSettings, type EncodedFileInfo } from "~lib/upload-format"
+
+const RETRY_ALARM = "upload-queue-retry"
+const BASE_RETRY_DELAY_MS = 5_000
+const MAX_RETRY_DELAY_MS = 30 * 60_000
+const MAX_ATTEMPTS = 8
+const CHUNK_SIZE = 5 * 1024 * 1024
+
+export type UploadStatus = "queued" | "uploading" | "failed" | "done"
+
+export type QueuedUpload = {
+  id: string
+  payload: Record<string, any> // everything but the file, sent as the metadata part
+  file?: Blob | null // missing on uploads queued before they went multipart
+  fileInfo?: EncodedFileInfo | null
+  parts?: UploadPart[] // frames[] and states[] images, missing on uploads queued before they were split out
+  session?: { id: string; offset: number } | null // chunked upload in progress
+  clipId: string | null // library clip to mark as synced once uploaded
+  profileId: string // profile active when queued, so switching doesn't redirect pending uploads
+  status: Exclude<UploadStatus, "done">
+  attempts: number
+  nextAttemptAt: number
+  lastError: string | null
+  authRequired: boolean // failed because the profile needs a (new) sign-in
+  createdAt: number
+}
+
+// What the overlay gets to see: everything except the (potentially huge) payload
+export type UploadSummary = {
+  id: string
+  title: string
+  status: UploadStatus
+  attempts: number
+  nextAttemptAt: number
+  lastError: string | null
+  authRequired: boolean
+  profileId: string
+  createdAt: number
+  progress: { sent: number; total: number } | null // bytes the backend has confirmed, null without files
+  uuid?: string
+  viewUrl?: string // hosted library link, set once done
+}
+
+// A nested image, the metadata names it in `file_part`
+type UploadPart = { name: string; file: Blob; info: EncodedFileInfo }
+
+class UploadError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message)
+  }
+}
+
+let draining = false
+let drainAgain = false
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+export async function enqueueUpload(payload: Record<string, any>, clipId: string | null = null): Promise<UploadSummary> {
+  const upload: QueuedUpload = {
+    id: crypto.randomUUID(),
+    ...await extractFile(payload),
+    session: null,
+    clipId,
+    profileId: (await getActiveProfile()).id,
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null,
+    authRequired: false,
+    createdAt: Date.now()
+  }
+  await putUpload(upload)
+  console.log("📥 Upload queued:", upload.id)
+
+  void drainQueue()
+  return summarize(upload)
+}
+
+export async function listUploads(): Promise<UploadSummary[]> {
+  const uploads = await getAllUploads()
+  return uploads.sort((a, b) => a.createdAt - b.createdAt).map((upload) => summarize(upload))
+}
+
+export async function retryUpload(id: string): Promise<void> {
+  const upload = await withStore<QueuedUpload>(UPLOADS_STORE, "readonly", (store) => store.get(id))
+  if (!upload) return
+  upload.status = "queued"
+  upload.attempts = 0
+  upload.nextAttemptAt = Date.now()
+  upload.lastError = null
+  upload.authRequired = false
+  await putUpload(upload)
+  await broadcast({ type: "UPLOAD_STATUS", upload: summarize(upload) })
+  void drainQueue()
+}
+
+// Called after a successful sign-in: everything that was waiting for it goes again
+export async function retryAuthRequired(profileId: string): Promise<void> {
+  const uploads = await getAllUploads()
+  for (const upload of uploads) {
+    if (upload.status === "failed" && upload.authRequired && upload.profileId === profileId) {
+      await retryUpload(upload.id)
+    }
+  }
+}
+
+export async function discardUpload(id: string): Promise<void> {
+  await withStore(UPLOADS_STORE, "readwrite", (store) => store.delete(id))
+  console.log("🗑️ Upload discarded:", id)
+  await broadcast({ type: "UPLOAD_REMOVED", id })
+}
+
+/**
+ * Wires the queue to the worker lifecycle. Nothing can be in flight when the worker
+ * boots, so uploads still marked as uploading were interrupted and go back in the
+ * queue. After that we drain on browser start, on the retry alarm and when the
+ * connection comes back.
+ */
+export function initUploadQueue() {
+  void resumeInterrupted()
+  chrome.runtime.onStartup.addListener(() => void drainQueue())
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === RETRY_ALARM) void drainQueue()
+  })
+  self.addEventListener("online", () => {
+    console.log("🌐 Back online, draining upload queue")
+    void drainQueue()
+  })
+}
+
+async function resumeInterrupted() {
+  const uploads = await getAllUploads()
+  for (const upload of uploads) {
+    if (upload.status !== "uploading") continue
+    upload.status = "queued"
+    upload.nextAttemptAt = Date.now()
+    await putUpload(upload)
+  }
+  await drainQueue()
+}
+
+async function drainQueue(): Promise<void> {
+  if (draining) {
+    drainAgain = true
+    return
+  }
+  draining = true
+
+  try {
+    do {
+      drainAgain = false
+      if (!navigator.onLine) {
+        console.log("📴 Offline, upload queue waits for connectivity")
+        break
+      }
+
+      const due = (await getAllUploads())
+        .filter((upload) => upload.status === "queued" && upload.nextAttemptAt <= Date.now())
+        .sort((a, b) => a.createdAt - b.createdAt)
+
+      for (const upload of due) await attemptUpload(upload)
+    } while (drainAgain)
+  } finally {
+    draining = false
+  }
+
+  await scheduleRetry()
+}
+
+async function attemptUpload(upload: QueuedUpload) {
+  upload.status = "uploading"
+  upload.attempts += 1
+  if (!await updateUpload(upload)) return
+  await broadcast({ type: "UPLOAD_STATUS", upload: summarize(upload) })
+
+  try {
+    const profile = await getProfile(upload.profileId)
+    if (!profile) throw new UploadError("Profile no longer exists", false)
+    if (upload.file === undefined || upload.parts === undefined) {
+      // Queued by an older version, the images are still base64 in the payload
+      const extracted = await extractFile(upload.payload)
+      upload.payload = extracted.payload
+      upload.parts = extracted.parts
+      if (upload.file === undefined) Object.assign(upload, { file: extracted.file, fileInfo: extracted.fileInfo })
+    }
+
+    const uuid = await sendUpload(upload, profile)
+    const viewUrl = uuid ? libraryLink(profile, uuid) : undefined
+    await withStore(UPLOADS_STORE, "readwrite", (store) => store.delete(upload.id))
+    console.log("✅ Upload done:", upload.id, uuid)
+    if (upload.clipId && uuid) await markClipSynced(upload.clipId, uuid, viewUrl)
+    await broadcast({ type: "UPLOAD_STATUS", upload: { ...summarize(upload), status: "done", uuid, viewUrl } })
+  } catch (error) {
+    // Network errors retry, HTTP errors depend on the status and auth errors wait for a sign-in
+    const retryable = error instanceof UploadError ? error.retryable : !(error instanceof AuthRequiredError)
+    upload.lastError = error?.message ?? String(error)
+    upload.authRequired = error instanceof AuthRequiredError
+
+    if (retryable && upload.attempts < MAX_ATTEMPTS) {
+      const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (upload.attempts - 1), MAX_RETRY_DELAY_MS)
+      upload.status = "queued"
+      upload.nextAttemptAt = Date.now() + delay
+      console.warn(`⚠️ Upload ${upload.id} failed, retrying in ${Math.round(delay / 1000)}s:`, upload.lastError)
+    } else {
+      upload.status = "failed"
+      console.error(`❌ Upload ${upload.id} failed for good:`, upload.lastError)
+    }
+
+    // Discarded while it was in flight, writing it back would bring it back to life
+    if (!await updateUpload(upload)) return
+    await broadcast({ type: "UPLOAD_STATUS", upload: summarize(upload) })
+  }
+}
+
+/**
+ * Every image moves out of the JSON payload into a Blob, re-encoded in the upload format.
+ * Breakpoint frames and state captures keep their entry in the metadata, with `file_part`
+ * naming the form part that holds the image ("frames-0", "states-1", …).
+ */
+async function extractFile(payload: Record<string, any>) {
+  const settings = await getUploadFormatSettings()
+  const { base64_file, ...metadata } = payload
+  const parts: UploadPart[] = []
+
+  for (const key of ["frames", "states"] as const) {
+    if (!Array.isArray(metadata[key])) continue
+    metadata[key] = await Promise.all(metadata[key].map(async (item: Record<string, any>, i: number) => {
+      const { base64_file: image, ...rest } = item
+      if (!image) return rest
+      const { blob, info } = await encodeUploadFile(image, settings)
+      const name = `${key}-${i}`
+      parts.push({ name, file: blob, info })
+      return { ...rest, file_part: name, file_info: info }
+    }))
+  }
+
+  if (!base64_file) return { payload: metadata, file: null, fileInfo: null, parts }
+  const { blob, info } = await encodeUploadFile(base64_file, settings)
+  return { payload: metadata, file: blob, fileInfo: info, parts }
+}
+
+async function sendUpload(upload: QueuedUpload, profile: Profile): Promise<string | undefined> {
+  // Identity is added here rather than in the overlay, the page never sees the session
+  const uploader = await getUploader(profile.id)
+  const metadata: Record<string, any> = uploader ? { ...upload.payload, uploader } : { ...upload.payload }
+  const form = new FormData()
+  if (upload.file) {
+    metadata.file_info = upload.fileInfo
+    if (upload.file.size > CHUNK_SIZE) metadata.upload_id = await sendChunks(upload, profile)
+  }
+  form.append("metadata", new Blob([JSON.stringify(metadata)], { type: "application/json" }))
+  if (upload.file && !metadata.upload_id) form.append("file", upload.file, `capture.${fileExtension(upload.file.type)}`)
+  for (const part of upload.parts ?? []) form.append(part.name, part.file, `${part.name}.${fileExtension(part.file.type)}`)
+
+  // No Content-Type header, fetch sets it with the multipart boundary
+  const res = await authorizedFetch(profile, profile.uploadUrl, {
+    method: "POST",
+    headers: profile.headers,
+    body: form
+  })
+  if (!res.ok) throw httpError(res)
+
+  // The clip is stored once the backend says 2xx, an odd body must not make us post it again
+  const responseData = await readJson(res)
+  return typeof responseData.uuid === "string" ? responseData.uuid : undefined
+}
+
+/**
+ * Resumable upload of a large file: POST {uploadUrl}/uploads opens a session ({ uploadId }),
+ * every chunk is a PUT with a Content-Range header and the metadata part then names the
+ * session as upload_id. The offset is stored after each chunk, so a retry (or a worker that
+ * was shut down mid-upload) continues where the last attempt stopped.
+ */
+async function sendChunks(upload: QueuedUpload, profile: Profile): Promise<string> {
+  const total = upload.file.size
+  const sessionsUrl = `${profile.uploadUrl.replace(/\/+$/, "")}/uploads`
+
+  if (!upload.session) {
+    const res = await authorizedFetch(profile, sessionsUrl, {
+      method: "POST",
+      headers: { ...profile.headers, "Content-Type": "application/json" },
+      body: JSON.stringify({ contentType: upload.file.type, size: total })
+    })
+    if (!res.ok) throw httpError(res)
+    const { uploadId } = await readJson(res)
+    if (!uploadId) throw new UploadError("Upload session response has no uploadId", true)
+    upload.session = { id: String(uploadId), offset: 0 }
+    await updateOrStop(upload)
+  }
+
+  while (upload.session.offset < total) {
+    const start = upload.session.offset
+    const end = Math.min(start + CHUNK_SIZE, total)
+    const res = await authorizedFetch(profile, `${sessionsUrl}/${encodeURIComponent(upload.session.id)}`, {
+      method: "PUT",
+      headers: { ...profile.headers, "Content-Type": "application/octet-stream", "Content-Range": `bytes ${start}-${end - 1}/${total}` },
+      body: upload.file.slice(start, end)
+    })
+    if (res.status === 404 || res.status === 410) {
+      // The backend dropped the session, the next attempt starts over
+      upload.session = null
+      throw new UploadError("Upload session expired", true)
+    }
+    if (!res.ok) throw httpError(res)
+
+    upload.session.offset = end
+    await updateOrStop(upload)
+    await broadcast({ type: "UPLOAD_STATUS", upload: summarize(upload) })
+  }
+  return upload.session.id
+}
+
+async function readJson(res: Response): Promise<Record<string, any>> {
+  try {
+    const data = JSON.parse(await res.text())
+    return data && typeof data === "object" ? data : {}
+  } catch {
+    return {}
+  }
+}
+
+function httpError(res: Response) {
+  // Client errors won't get better by sending the same body again
+  const retryable = res.status >= 500 || res.status === 408 || res.status === 429
+  return new UploadError(`${res.status} ${res.statusText}`, retryable)
+}
+
+// Alarms survive the worker being shut down but fire at most every 30s,
+// so short backoffs are additionally covered by a plain timer
+async function scheduleRetry() {
+  if (retryTimer) clearTimeout(retryTimer)
+  retryTimer = null
+
+  const queued = (await getAllUploads()).filter((upload) => upload.status === "queued")
+  if (!queued.length) {
+    await chrome.alarms.clear(RETRY_ALARM)
+    return
+  }
+
+  const next = Math.min(...queued.map((upload) => upload.nextAttemptAt))
+  await chrome.alarms.create(RETRY_ALARM, { when: Math.max(next, Date.now() + 1000) })
+  retryTimer = setTimeout(() => void drainQueue(), Math.max(0, next - Date.now()))
+}
+
+// Queue changes go to every tab so each overlay's queue list stays current
+async function broadcast(message: { type: "UPLOAD_STATUS", upload: UploadSummary } | { type: "UPLOAD_REMOVED", id: string }) {
+  const tabs = await chrome.tabs.query({})
+  for (const tab of tabs) {
+    if (tab.id === undefined) continue
+    chrome.tabs.sendMessage(tab.id, message).catch(() => {
+      // No overlay in this tab (chrome:// pages, tabs loaded before install, ...)
+    })
+  }
+}
+
+function summarize(upload: QueuedUpload): UploadSummary {
+  return {
+    id: upload.id,
+    title: upload.payload.title || upload.payload.url || "Untitled",
+    status: upload.status,
+    attempts: upload.attempts,
+    nextAttemptAt: upload.nextAttemptAt,
+    lastError: upload.lastError,
+    authRequired: upload.authRequired,
+    profileId: upload.profileId,
+    createdAt: upload.createdAt,
+    progress: uploadSize(upload) ? { sent: upload.session?.offset ?? 0, total: uploadSize(upload) } : null
+  }
+}
+
+// Files only, the metadata part is small next to them
+function uploadSize(upload: QueuedUpload) {
+  return (upload.file?.size ?? 0) + (upload.parts ?? []).reduce((sum, part) => sum + part.file.size, 0)
+}
+
+function getAllUploads(): Promise<QueuedUpload[]> {
+  return withStore<QueuedUpload[]>(UPLOADS_STORE, "readonly", (store) => store.getAll())
+}
+
+function putUpload(upload: QueuedUpload) {
+  return withStore(UPLOADS_STORE, "readwrite", (store) => store.put(upload))
+}
+
+/**
+ * Writes an upload back unless it was discarded in the meantime. The check and the write
+ * share one transaction, so a discard can't slip in between. False when it is gone.
+ */
+async function updateUpload(upload: QueuedUpload): Promise<boolean> {
+  const db = await openDb()
+  const tx = db.transaction(UPLOADS_STORE, "readwrite")
+  const store = tx.objectStore(UPLOADS_STORE)
+  const present = requestToPromise(store.getKey(upload.id)).then((key) => {
+    if (key === undefined) return false
+    store.put(upload)
+    return true
+  })
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+  return present
+}
+
+// Mid-upload writes: a discarded upload stops sending chunks
+async function updateOrStop(upload: QueuedUpload) {
+  if (!await updateUpload(upload)) throw new UploadError("Upload was discarded", false)
+}
@@ -0,0 +1,571 @@
+// src/options.tsx
+// Options page: named environment profiles with upload endpoint, hosted library URL
+// and extra request headers, plus which profile is active. Stored in chrome.storage.sync.
+// Also holds the PII redaction, DOM snippet asset, breakpoint and shortcut settings used by the capture overlay.
+
+import React, { useEffect, useState } from "react"
+import "~style.css"
+import type { AuthStatus } from "~lib/auth"
+import {
+  getCaptureScaleSettings,
+  OUTPUT_DENSITY_LABELS,
+  saveCaptureScaleSettings,
+  type CaptureScaleSettings,
+  type OutputDensity
+} from "~lib/capture-scale"
+import { getAssetSettings, saveAssetSettings, type AssetSettings } from "~lib/dom-assets"
+import { getProfileSettings, saveProfileSettings, type Profile, type ProfileSettings } from "~lib/profiles"
+import { request } from "~lib/protocol"
+import {
+  getRedactionSettings,
+  saveRedactionSettings,
+  type BuiltinPattern,
+  type RedactionSettings
+} from "~lib/redaction"
+import { getResponsiveSettings, saveResponsiveSettings } from "~lib/responsive"
+import {
+  CAPTURE_COMMANDS,
+  COMMAND_LABELS,
+  getShortcutSettings,
+  saveShortcutSettings,
+  type CaptureCommand,
+  type ShortcutSettings
+} from "~lib/shortcuts"
+import {
+  UPLOAD_FORMAT_LABELS,
+  getUploadFormatSettings,
+  saveUploadFormatSettings,
+  type UploadFormat,
+  type UploadFormatSettings
+} from "~lib/upload-format"
+
+const OptionsPage = () => {
+  const [settings, setSettings] = useState<ProfileSettings | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    getProfileSettings().then(setSettings)
+  }, [])
+
+  if (!settings) return null
+
+  const updateProfile = (id: string, patch: Partial<Profile>) => {
+    setSaved(false)
+    setSettings({ ...settings, profiles: settings.profiles.map((p) => p.id === id ? { ...p, ...patch } : p) })
+  }
+
+  const addProfile = () => {
+    setSaved(false)
+    setSettings({
+      ...settings,
+      profiles: [...settings.profiles, { id: crypto.randomUUID(), name: "New profile", uploadUrl: "", libraryUrl: "", headers: {} }]
+    })
+  }
+
+  const removeProfile = (id: string) => {
+    setSaved(false)
+    setSettings({ ...settings, profiles: settings.profiles.filter((p) => p.id !== id) })
+  }
+
+  const save = async () => {
+    await saveProfileSettings(settings)
+    setSettings(await getProfileSettings())
+    setSaved(true)
+  }
+
+  const inputClass = "w-full px-2.5 py-2 rounded-lg border border-gray-600 bg-gray-800 text-gray-200 text-xs font-sans"
+
+  return (
+    <div className="min-h-screen p-6 font-sans text-gray-200 bg-gray-950">
+      <div className="flex flex-col max-w-2xl gap-4 mx-auto">
+        <h1 className="text-base font-semibold">GrebRef settings</h1>
+        <div className="text-xs text-gray-400">
+          Uploads go to the active profile. Uploads already in the queue keep the profile they were queued with.
+        </div>
+
+        {settings.profiles.map((profile) => (
+          <div key={profile.id} className="flex flex-col gap-2 p-4 bg-gray-900 border border-gray-800 rounded-xl">
+            <div className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="activeProfile"
+                checked={settings.activeProfileId === profile.id}
+                onChange={() => {
+                  setSaved(false)
+                  setSettings({ ...settings, activeProfileId: profile.id })
+                }}
+              />
+              <input className={inputClass} value={profile.name} onChange={(e) => updateProfile(profile.id, { name: e.target.value })} />
+              <button
+                className="px-3 py-2 text-xs text-gray-300 border border-gray-600 rounded-lg cursor-pointer hover:bg-gray-800 disabled:opacity-40"
+                disabled={settings.profiles.length === 1}
+                onClick={() => removeProfile(profile.id)}
+              >
+                Remove
+              </button>
+            </div>
+            <label className="flex flex-col gap-1 text-xs text-gray-400">
+              Upload endpoint
+              <input className={inputClass} placeholder="https://…/api/clips" value={profile.uploadUrl} onChange={(e) => updateProfile(profile.id, { uploadUrl: e.target.value })} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-gray-400">
+              Library URL
+              <input className={inputClass} placeholder="https://…/" value={profile.libraryUrl} onChange={(e) => updateProfile(profile.id, { libraryUrl: e.target.value })} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-gray-400">
+              Extra headers, one <code>Name: value</code> per line
+              <HeadersInput className={`${inputClass} font-mono h-20`} headers={profile.headers} onChange={(headers) => updateProfile(profile.id, { headers })} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-gray-400">
+              Sign-in URL (optional)
+              <input className={inputClass} placeholder="https://…/extension-login" value={profile.signInUrl ?? ""} onChange={(e) => updateProfile(profile.id, { signInUrl: e.target.value })} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-gray-400">
+              Token refresh URL (optional)
+              <input className={inputClass} placeholder="https://…/api/auth/refresh" value={profile.refreshUrl ?? ""} onChange={(e) => updateProfile(profile.id, { refreshUrl: e.target.value })} />
+            </label>
+            <AccountSection profile={profile} inputClass={inputClass} />
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2">
+          <button className="px-3 py-2 text-xs text-gray-300 border border-gray-600 rounded-lg cursor-pointer hover:bg-gray-800" onClick={addProfile}>Add profile</button>
+          <button className="px-3 py-2 text-xs text-white bg-blue-600 border-0 rounded-lg cursor-pointer hover:bg-blue-700" onClick={save}>Save</button>
+          {saved && <span className="text-xs text-green-400">Saved</span>}
+        </div>
+
+        <CaptureScaleSection inputClass={inputClass} />
+        <UploadFormatSection inputClass={inputClass} />
+        <RedactionSection inputClass={inputClass} />
+        <AssetSection inputClass={inputClass} />
+        <ResponsiveSection inputClass={inputClass} />
+        <ShortcutsSection inputClass={inputClass} />
+      </div>
+    </div>
+  )
+}
+
+export default OptionsPage
+
+// Sign-in state of a profile. The token itself stays in the background worker,
+// this page only sends credentials in and gets the status back.
+const AccountSection = ({ profile, inputClass }: { profile: Profile, inputClass: string }) => {
+  const [status, setStatus] = useState<AuthStatus | null>(null)
+  const [apiKey, setApiKey] = useState("")
+  const [name, setName] = useState("")
+  const [email, setEmail] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    request("AUTH_STATUS", { profileId: profile.id })
+      .then((res) => setStatus(res.status))
+      .catch((error) => setError(error.message))
+  }, [profile.id])
+
+  const send = async (pending: Promise<{ status: AuthStatus }>) => {
+    setError(null)
+    try {
+      setStatus((await pending).status)
+      setApiKey("")
+    } catch (error) {
+      setError(error.message)
+    }
+  }
+
+  const buttonClass = "px-3 py-2 text-xs text-gray-300 border border-gray-600 rounded-lg cursor-pointer hover:bg-gray-800 disabled:opacity-40"
+
+  return (
+    <div className="flex flex-col gap-2 pt-2 mt-1 border-t border-gray-800">
+      {status?.authRequired && (
+        <div className="text-xs text-amber-400">
+          The server rejected these credentials, uploads wait until you sign in again or use a new key
+        </div>
+      )}
+      <div className="text-xs text-gray-400">
+        {status?.signedIn
+          ? `Signed in${status.user?.email || status.user?.name ? ` as ${status.user.email ?? status.user.name}` : ""} (${status.kind === "apiKey" ? "API key" : "sign-in"})`
+          : "Not signed in, uploads are sent anonymously"}
+      </div>
+      <div className="flex flex-row gap-2">
+        <button className={buttonClass} disabled={!profile.signInUrl} title={profile.signInUrl ? undefined : "Add a sign-in URL and save first"} onClick={() => send(request("AUTH_SIGN_IN", { profileId: profile.id }))}>
+          Sign in
+        </button>
+        {status?.signedIn && <button className={buttonClass} onClick={() => send(request("AUTH_SIGN_OUT", { profileId: profile.id }))}>Sign out</button>}
+      </div>
+      <div className="flex flex-row gap-2">
+        <input className={inputClass} type="password" placeholder="API key" value={apiKey} onChange={(e) => setApiKey(e.target.value)} />
+        <input className={inputClass} placeholder="Your name" value={name} onChange={(e) => setName(e.target.value)} />
+        <input className={inputClass} placeholder="Your email" value={email} onChange={(e) => setEmail(e.target.value)} />
+        <button className={buttonClass} disabled={!apiKey} onClick={() => send(request("AUTH_SET_API_KEY", { profileId: profile.id, apiKey, name, email }))}>
+          Use key
+        </button>
+      </div>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  )
+}
+
+const PATTERN_LABELS: Record<BuiltinPattern, string> = {
+  email: "Email addresses",
+  phone: "Phone numbers",
+  card: "Card numbers",
+  personnummer: "Personnummer"
+}
+
+// What the overlay masks before a capture. Form fields with personal data are always included.
+const RedactionSection = ({ inputClass }: { inputClass: string }) => {
+  const [settings, setSettings] = useState<RedactionSettings | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    getRedactionSettings().then(setSettings)
+  }, [])
+
+  if (!settings) return null
+
+  const update = (patch: Partial<RedactionSettings>) => {
+    setSaved(false)
+    setSettings({ ...settings, ...patch })
+  }
+
+  const save = async () => {
+    await saveRedactionSettings(settings)
+    setSaved(true)
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-4 mt-4 bg-gray-900 border border-gray-800 rounded-xl">
+      <h2 className="text-sm font-semibold">Redaction</h2>
+      <div className="text-xs text-gray-400">
+        Personal data is masked on the page while a capture is taken and removed from DOM snippets. You can keep single items from the preview.
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        Redact before capturing
+      </label>
+      <div className="flex flex-wrap gap-4">
+        {(Object.keys(PATTERN_LABELS) as BuiltinPattern[]).map((kind) => (
+          <label key={kind} className="flex items-center gap-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.patterns[kind]}
+              onChange={(e) => update({ patterns: { ...settings.patterns, [kind]: e.target.checked } })}
+            />
+            {PATTERN_LABELS[kind]}
+          </label>
+        ))}
+      </div>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Style
+        <select className={inputClass} value={settings.style} onChange={(e) => update({ style: e.target.value as RedactionSettings["style"] })}>
+          <option value="blur">Blur</option>
+          <option value="placeholder">Placeholder text</option>
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Extra patterns, one regular expression per line
+        <LinesInput className={`${inputClass} font-mono h-20`} lines={settings.customPatterns} onChange={(customPatterns) => update({ customPatterns })} />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Always redact elements matching, one CSS selector per line
+        <LinesInput className={`${inputClass} font-mono h-20`} lines={settings.selectors} onChange={(selectors) => update({ selectors })} />
+      </label>
+      <div className="flex items-center gap-2">
+        <button className="px-3 py-2 text-xs text-white bg-blue-600 border-0 rounded-lg cursor-pointer hover:bg-blue-700" onClick={save}>Save</button>
+        {saved && <span className="text-xs text-green-400">Saved</span>}
+      </div>
+    </div>
+  )
+}
+
+// Embedding makes DOM snippets independent of the source site, at the cost of size
+// Applies to clips queued from now on, the library keeps the captured PNG either way
+const CaptureScaleSection = ({ inputClass }: { inputClass: string }) => {
+  const [settings, setSettings] = useState<CaptureScaleSettings | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    getCaptureScaleSettings().then(setSettings)
+  }, [])
+
+  if (!settings) return null
+
+  const save = async () => {
+    await saveCaptureScaleSettings(settings)
+    setSaved(true)
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-4 bg-gray-900 border border-gray-800 rounded-xl">
+      <h2 className="text-sm font-semibold">Screenshot density</h2>
+      <div className="text-xs text-gray-400">
+        Pixels per CSS pixel in image and full page captures. Native keeps what the screen shows, including browser zoom.
+      </div>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Output density
+        <select
+          className={inputClass}
+          value={settings.density}
+          onChange={(e) => {
+            setSaved(false)
+            setSettings({ ...settings, density: e.target.value as OutputDensity })
+          }}
+        >
+          {Object.entries(OUTPUT_DENSITY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      </label>
+      <div className="flex items-center gap-2">
+        <button className="px-3 py-2 text-xs text-white bg-blue-600 border-0 rounded-lg cursor-pointer hover:bg-blue-700" onClick={save}>Save</button>
+        {saved && <span className="text-xs text-green-400">Saved</span>}
+      </div>
+    </div>
+  )
+}
+
+const UploadFormatSection = ({ inputClass }: { inputClass: string }) => {
+  const [settings, setSettings] = useState<UploadFormatSettings | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    getUploadFormatSettings().then(setSettings)
+  }, [])
+
+  if (!settings) return null
+
+  const update = (patch: Partial<UploadFormatSettings>) => {
+    setSaved(false)
+    setSettings({ ...settings, ...patch })
+  }
+
+  const save = async () => {
+    await saveUploadFormatSettings(settings)
+    setSaved(true)
+  }
+
+  const lossy = settings.format === "webp" || settings.format === "jpeg"
+
+  return (
+    <div className="flex flex-col gap-2 p-4 bg-gray-900 border border-gray-800 rounded-xl">
+      <h2 className="text-sm font-semibold">Upload format</h2>
+      <div className="flex gap-2">
+        <label className="flex flex-col flex-1 gap-1 text-xs text-gray-400">
+          Image format
+          <select className={inputClass} value={settings.format} onChange={(e) => update({ format: e.target.value as UploadFormat })}>
+            {Object.entries(UPLOAD_FORMAT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col flex-1 gap-1 text-xs text-gray-400">
+          Max dimension (px, empty for none)
+          <input className={inputClass} type="number" min={1} value={settings.maxDimension ?? ""} onChange={(e) => update({ maxDimension: Number(e.target.value) || null })} />
+        </label>
+      </div>
+      {lossy && (
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Quality ({Math.round(settings.quality * 100)})
+          <input type="range" min={10} max={100} value={Math.round(settings.quality * 100)} onChange={(e) => update({ quality: Number(e.target.value) / 100 })} />
+        </label>
+      )}
+      <div className="flex items-center gap-2">
+        <button className="px-3 py-2 text-xs text-white bg-blue-600 border-0 rounded-lg cursor-pointer hover:bg-blue-700" onClick={save}>Save</button>
+        {saved && <span className="text-xs text-green-400">Saved</span>}
+      </div>
+    </div>
+  )
+}
+
+const AssetSection = ({ inputClass }: { inputClass: string }) => {
+  const [settings, setSettings] = useState<AssetSettings | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    getAssetSettings().then(setSettings)
+  }, [])
+
+  if (!settings) return null
+
+  const update = (patch: Partial<AssetSettings>) => {
+    setSaved(false)
+    setSettings({ ...settings, ...patch })
+  }
+
+  const save = async () => {
+    await saveAssetSettings(settings)
+    setSaved(true)
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-4 bg-gray-900 border border-gray-800 rounded-xl">
+      <h2 className="text-sm font-semibold">DOM snippets</h2>
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        <input type="checkbox" checked={settings.embedAssets} onChange={(e) => update({ embedAssets: e.target.checked })} />
+        Embed images, fonts and SVG icons in DOM snippets
+      </label>
+      <div className="flex gap-2">
+        <label className="flex flex-col flex-1 gap-1 text-xs text-gray-400">
+          Max size per asset (KB)
+          <input className={inputClass} type="number" min={1} value={settings.maxAssetKb} onChange={(e) => update({ maxAssetKb: Number(e.target.value) || 1 })} />
+        </label>
+        <label className="flex flex-col flex-1 gap-1 text-xs text-gray-400">
+          Max size per snippet (MB)
+          <input className={inputClass} type="number" min={1} value={settings.maxTotalMb} onChange={(e) => update({ maxTotalMb: Number(e.target.value) || 1 })} />
+        </label>
+      </div>
+      <div className="flex items-center gap-2">
+        <button className="px-3 py-2 text-xs text-white bg-blue-600 border-0 rounded-lg cursor-pointer hover:bg-blue-700" onClick={save}>Save</button>
+        {saved && <span className="text-xs text-green-400">Saved</span>}
+      </div>
+    </div>
+  )
+}
+
+// Viewport widths for "Capture breakpoints", edited as a comma-separated list
+const ResponsiveSection = ({ inputClass }: { inputClass: string }) => {
+  const [text, setText] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    getResponsiveSettings().then((settings) => setText(settings.widths.join(", ")))
+  }, [])
+
+  if (text === null) return null
+
+  const save = async () => {
+    const widths = [...new Set(text.split(/[\s,]+/).map(Number).filter((w) => Number.isInteger(w) && w > 0))].sort((a, b) => a - b)
+    await saveResponsiveSettings({ widths })
+    setText(widths.join(", "))
+    setSaved(true)
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-4 bg-gray-900 border border-gray-800 rounded-xl">
+      <h2 className="text-sm font-semibold">Breakpoints</h2>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Viewport widths (px), comma-separated
+        <input className={inputClass} value={text} onChange={(e) => { setSaved(false); setText(e.target.value) }} />
+      </label>
+      <div className="flex items-center gap-2">
+        <button className="px-3 py-2 text-xs text-white bg-blue-600 border-0 rounded-lg cursor-pointer hover:bg-blue-700" onClick={save}>Save</button>
+        {saved && <span className="text-xs text-green-400">Saved</span>}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * chrome.commands bindings are only shown here, Chrome owns them; the in-page fallback's
+ * keys and sites are ours.
+ */
+const ShortcutsSection = ({ inputClass }: { inputClass: string }) => {
+  const [commands, setCommands] = useState<chrome.commands.Command[]>([])
+  const [settings, setSettings] = useState<ShortcutSettings | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    chrome.commands.getAll().then((all) => setCommands(all.filter((c) => CAPTURE_COMMANDS.includes(c.name as CaptureCommand))))
+    getShortcutSettings().then(setSettings)
+  }, [])
+
+  if (!settings) return null
+
+  const update = (patch: Partial<ShortcutSettings>) => {
+    setSaved(false)
+    setSettings({ ...settings, ...patch })
+  }
+
+  const save = async () => {
+    await saveShortcutSettings(settings)
+    setSaved(true)
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-4 bg-gray-900 border border-gray-800 rounded-xl">
+      <h2 className="text-sm font-semibold">Shortcuts</h2>
+      <div className="flex flex-col gap-1 text-xs text-gray-400">
+        {commands.map((command) => (
+          <div key={command.name} className="flex justify-between gap-2">
+            <span>{command.description}</span>
+            <b className="text-gray-200">{command.shortcut || "Not set"}</b>
+          </div>
+        ))}
+      </div>
+      <button
+        className="self-start px-3 py-2 text-xs text-gray-300 border border-gray-600 rounded-lg cursor-pointer hover:bg-gray-800"
+        onClick={() => chrome.tabs.create({ url: "chrome://extensions/shortcuts" })}
+      >
+        Change in Chrome
+      </button>
+      <div className="mt-2 text-xs text-gray-400">
+        In-page fallback: these keys are read by the page itself and take over the browser's own shortcuts, so they are
+        only active on the sites below (or the ones switched on in the toolbar popup).
+      </div>
+      {CAPTURE_COMMANDS.map((command) => (
+        <label key={command} className="flex items-center justify-between gap-2 text-xs text-gray-400">
+          {COMMAND_LABELS[command]}
+          <input
+            className={`${inputClass} max-w-40`}
+            value={settings.inPageBindings[command]}
+            onChange={(e) => update({ inPageBindings: { ...settings.inPageBindings, [command]: e.target.value } })}
+          />
+        </label>
+      ))}
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Sites (hostnames, one per line)
+        <LinesInput className={`${inputClass} h-20 font-mono`} lines={settings.inPageSites} onChange={(inPageSites) => update({ inPageSites })} />
+      </label>
+      <div className="flex items-center gap-2">
+        <button className="px-3 py-2 text-xs text-white bg-blue-600 border-0 rounded-lg cursor-pointer hover:bg-blue-700" onClick={save}>Save</button>
+        {saved && <span className="text-xs text-green-400">Saved</span>}
+      </div>
+    </div>
+  )
+}
+
+const LinesInput = ({ lines, onChange, className }: {
+  lines: string[]
+  onChange: (lines: string[]) => void
+  className: string
+}) => {
+  const [text, setText] = useState(() => lines.join("\n"))
+
+  return (
+    <textarea
+      className={className}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value)
+        onChange(e.target.value.split("\n").map((line) => line.trim()).filter(Boolean))
+      }}
+    />
+  )
+}
+
+// Keeps the raw text while typing, so half-written lines don't vanish on re-render
+const HeadersInput = ({ headers, onChange, className }: {
+  headers: Record<string, string>
+  onChange: (headers: Record<string, string>) => void
+  className: string
+}) => {
+  const [text, setText] = useState(() => Object.entries(headers).map(([k, v]) => `${k}: ${v}`).join("\n"))
+
+  return (
+    <textarea
+      className={className}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value)
+        onChange(parseHeaders(e.target.value))
+      }}
+    />
+  )
+}
+
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of text.split("\n")) {
+    const idx = line.indexOf(":")
+    if (idx <= 0) continue
+    const name = line.slice(0, idx).trim()
+    if (name) headers[name] = line.slice(idx + 1).trim()
+  }
+  return headers
+}
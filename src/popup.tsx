@@ -0,0 +1,86 @@
+// src/popup.tsx
+// Toolbar popup: quick switcher for the active profile plus shortcuts to the
+// local library, the options page and record mode, and the per-site switch for
+// in-page keyboard shortcuts.
+
+import React, { useEffect, useState } from "react"
+import "~style.css"
+import { getProfileSettings, onProfileSettingsChanged, setActiveProfile, type ProfileSettings } from "~lib/profiles"
+import { getShortcutSettings, setInPageShortcuts } from "~lib/shortcuts"
+
+const Popup = () => {
+  const [settings, setSettings] = useState<ProfileSettings | null>(null)
+  const [site, setSite] = useState<string | null>(null) // hostname of the active tab, null on non-web pages
+  const [inPageShortcuts, setInPageShortcutsState] = useState(false)
+
+  useEffect(() => {
+    getProfileSettings().then(setSettings)
+    return onProfileSettingsChanged(setSettings)
+  }, [])
+
+  useEffect(() => {
+    const loadSite = async () => {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      const url = tab?.url ? new URL(tab.url) : null
+      if (!url || !url.protocol.startsWith("http")) return
+      const shortcuts = await getShortcutSettings()
+      setSite(url.hostname)
+      setInPageShortcutsState(shortcuts.inPageSites.includes(url.hostname))
+    }
+    loadSite()
+  }, [])
+
+  const toggleInPageShortcuts = async (enabled: boolean) => {
+    await setInPageShortcuts(site!, enabled)
+    setInPageShortcutsState(enabled)
+  }
+
+  // Opening the popup is what allows tabCapture to film this tab, the overlay takes it from here
+  const startRecordMode = async () => {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (tab?.id) await chrome.tabs.sendMessage(tab.id, { type: "RUN_COMMAND", command: "record" }).catch(() => {})
+    window.close()
+  }
+
+  const buttonClass = "px-3 py-2 text-xs text-gray-300 border border-gray-600 rounded-lg cursor-pointer hover:bg-gray-800"
+
+  return (
+    <div className="flex flex-col gap-3 p-3 font-sans text-gray-200 bg-gray-900 w-72">
+      <div className="text-sm font-semibold">GrebRef</div>
+      {settings && (
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Active profile
+          <select
+            className="w-full px-2.5 py-2 rounded-lg border border-gray-600 bg-gray-800 text-gray-200 text-xs font-sans"
+            value={settings.activeProfileId}
+            onChange={(e) => setActiveProfile(e.target.value)}
+          >
+            {settings.profiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </label>
+      )}
+      <div className="flex flex-row gap-2">
+        <button
+          className={`flex-1 ${buttonClass}`}
+          onClick={() => chrome.tabs.create({ url: chrome.runtime.getURL("tabs/library.html") })}
+        >
+          Open library
+        </button>
+        <button className={`flex-1 ${buttonClass}`} onClick={() => chrome.runtime.openOptionsPage()}>
+          Edit profiles
+        </button>
+      </div>
+      <button className={buttonClass} onClick={startRecordMode}>
+        Record micro-interaction
+      </button>
+      {site && (
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer" title="Lets the page's own key presses (Ctrl+S …) start captures, instead of only the extension shortcuts">
+          <input type="checkbox" checked={inPageShortcuts} onChange={(e) => toggleInPageShortcuts(e.target.checked)} />
+          In-page shortcuts on {site}
+        </label>
+      )}
+    </div>
+  )
+}
+
+export default Popup
@@ -0,0 +1,277 @@
+// src/tabs/library.tsx
+// Extension page for the local clip library (tabs/library.html).
+// Thumbnail grid with full-text search, domain/mode/date filters and a detail view.
+// Clips are read straight from IndexedDB, syncing goes through the background upload queue.
+
+import React, { useEffect, useMemo, useState } from "react"
+import "~style.css"
+import { burnRedactions, flattenAnnotations } from "~lib/annotations"
+import { clipToPayload, deleteClip, filterClips, listClips, type ClipFilters, type ClipMode, type LibraryClip } from "~lib/library"
+import { request } from "~lib/protocol"
+
+const MODE_LABELS: Record<ClipMode, string> = { image: "Image", dom: "DOM", fullpage: "Full page", record: "Recording", text: "Text" }
+
+const LibraryPage = () => {
+  const [clips, setClips] = useState<LibraryClip[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filters, setFilters] = useState<ClipFilters>({ query: "", domain: null, mode: null, from: null, to: null })
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [syncingIds, setSyncingIds] = useState<Set<string>>(new Set())
+
+  const reload = () => listClips()
+    .then(setClips)
+    .catch((error) => console.error("❌ Failed to load library:", error))
+    .finally(() => setLoading(false))
+
+  useEffect(() => {
+    reload()
+    const onMessage = (msg: any) => {
+      if (msg?.type === "LIBRARY_CHANGED") reload()
+    }
+    chrome.runtime.onMessage.addListener(onMessage)
+    return () => chrome.runtime.onMessage.removeListener(onMessage)
+  }, [])
+
+  const domains = useMemo(() => [...new Set(clips.map((c) => c.domain).filter(Boolean))].sort(), [clips])
+  const visible = useMemo(() => filterClips(clips, filters), [clips, filters])
+  const selected = clips.find((c) => c.id === selectedId) ?? null
+
+  const syncClip = async (clip: LibraryClip) => {
+    setSyncingIds((prev) => new Set(prev).add(clip.id))
+    try {
+      // Clips saved before pixelate regions were burnt in still carry them as a layer
+      const redacted = clip.imageDataUrl ? { ...clip, ...await burnRedactions(clip.imageDataUrl, clip.annotations ?? []) } : clip
+      await request("UPLOAD_ENQUEUE", { payload: clipToPayload(redacted), clipId: clip.id })
+    } catch (error) {
+      alert("Kunde inte köa uppladdningen: " + error.message)
+      setSyncingIds((prev) => {
+        const next = new Set(prev)
+        next.delete(clip.id)
+        return next
+      })
+    }
+  }
+
+  const removeClip = async (clip: LibraryClip) => {
+    if (!confirm(`Delete "${clip.title || clip.url}" from the library?`)) return
+    await deleteClip(clip.id)
+    setSelectedId(null)
+    reload()
+  }
+
+  const updateFilter = <K extends keyof ClipFilters>(key: K, value: ClipFilters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }))
+
+  const inputClass = "px-2.5 py-2 rounded-lg border border-gray-600 bg-gray-800 text-gray-200 text-xs font-sans"
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-gray-200 font-sans">
+      <header className="sticky top-0 z-10 flex flex-wrap items-center gap-2 px-6 py-4 bg-gray-900 border-b border-gray-800">
+        <h1 className="mr-4 text-base font-semibold">GrebRef library</h1>
+        <input
+          className={`${inputClass} flex-1 min-w-60`}
+          placeholder="Search title, URL, description or tags"
+          value={filters.query}
+          onChange={(e) => updateFilter("query", e.target.value)}
+        />
+        <select className={inputClass} value={filters.domain ?? ""} onChange={(e) => updateFilter("domain", e.target.value || null)}>
+          <option value="">All domains</option>
+          {domains.map((d) => <option key={d} value={d}>{d}</option>)}
+        </select>
+        <select className={inputClass} value={filters.mode ?? ""} onChange={(e) => updateFilter("mode", (e.target.value || null) as ClipMode | null)}>
+          <option value="">All modes</option>
+          {Object.entries(MODE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <input type="date" className={inputClass} value={filters.from ?? ""} onChange={(e) => updateFilter("from", e.target.value || null)} />
+        <span className="text-xs text-gray-400">–</span>
+        <input type="date" className={inputClass} value={filters.to ?? ""} onChange={(e) => updateFilter("to", e.target.value || null)} />
+      </header>
+
+      <main className="p-6">
+        <div className="mb-4 text-xs text-gray-400">
+          {loading ? "Loading…" : `${visible.length} of ${clips.length} clips`}
+        </div>
+        <div className="grid gap-4 grid-cols-[repeat(auto-fill,minmax(220px,1fr))]">
+          {visible.map((clip) => (
+            <ClipCard key={clip.id} clip={clip} onOpen={() => setSelectedId(clip.id)} />
+          ))}
+        </div>
+      </main>
+
+      {selected && (
+        <ClipDetail
+          clip={selected}
+          syncing={syncingIds.has(selected.id) && !selected.syncedUuid}
+          onClose={() => setSelectedId(null)}
+          onSync={() => syncClip(selected)}
+          onDelete={() => removeClip(selected)}
+        />
+      )}
+    </div>
+  )
+}
+
+export default LibraryPage
+
+// `actualSize` shows screenshots at their size on the page (CSS pixels) instead of filling the box
+const ClipPreview = ({ clip, className, showAnnotations = false, actualSize = false }: {
+  clip: LibraryClip
+  className: string
+  showAnnotations?: boolean
+  actualSize?: boolean
+}) => {
+  const [annotated, setAnnotated] = useState<string | null>(null)
+  const [naturalWidth, setNaturalWidth] = useState<number | null>(null)
+
+  useEffect(() => {
+    setAnnotated(null)
+    if (!showAnnotations || !clip.imageDataUrl || !clip.annotations?.length) return
+    flattenAnnotations(clip.imageDataUrl, clip.annotations).then(setAnnotated)
+  }, [clip, showAnnotations])
+
+  if (clip.imageDataUrl?.startsWith("data:video/")) {
+    return <video src={clip.imageDataUrl} autoPlay loop muted playsInline className={`${className} object-contain bg-black`} />
+  }
+  if (clip.imageDataUrl && actualSize && clip.imageScale) {
+    return (
+      <div className={`${className} flex items-start justify-center overflow-auto bg-black`}>
+        <img
+          src={annotated ?? clip.imageDataUrl}
+          alt={clip.title}
+          className="block h-auto max-w-full"
+          style={naturalWidth ? { width: naturalWidth / clip.imageScale } : undefined}
+          onLoad={(e) => setNaturalWidth(e.currentTarget.naturalWidth)}
+        />
+      </div>
+    )
+  }
+  if (clip.imageDataUrl) {
+    return <img src={annotated ?? clip.imageDataUrl} alt={clip.title} className={`${className} object-contain bg-black`} />
+  }
+  if (clip.mode === "text") {
+    return <div className={`${className} p-3 overflow-auto text-xs text-gray-200 whitespace-pre-wrap bg-gray-800`}>{clip.text}</div>
+  }
+  // DOM clips render in a sandboxed frame so page markup can't run scripts in the extension
+  return <iframe sandbox="" srcDoc={clip.domHtml ?? ""} title={clip.title} className={`${className} bg-white`} />
+}
+
+const ClipCard = ({ clip, onOpen }: { clip: LibraryClip, onOpen: () => void }) => (
+  <button
+    className="flex flex-col overflow-hidden text-left bg-gray-900 border border-gray-800 rounded-xl cursor-pointer hover:border-blue-600"
+    onClick={onOpen}
+  >
+    <div className="relative w-full h-40 overflow-hidden pointer-events-none">
+      <ClipPreview clip={clip} className="w-full h-full" />
+    </div>
+    <div className="flex flex-col gap-1 p-3">
+      <div className="text-xs font-semibold truncate">{clip.title || clip.url}</div>
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <span className="truncate">{clip.domain}</span>
+        <span>·</span>
+        <span>{MODE_LABELS[clip.mode]}</span>
+        {clip.syncedUuid && <span className="ml-auto text-green-400">Synced</span>}
+      </div>
+    </div>
+  </button>
+)
+
+// Breakpoint or state captures under the main preview
+const FrameRow = ({ title, frames }: { title: string, frames: Array<{ key: string, dataUrl: string | null, caption: string }> }) => (
+  <div className="flex flex-col gap-2 mt-4">
+    <div className="text-xs font-semibold text-gray-300">{title}</div>
+    <div className="flex items-start gap-3 overflow-x-auto">
+      {frames.map((frame) => (
+        <figure key={frame.key} className="flex flex-col gap-1 m-0 shrink-0">
+          {frame.dataUrl
+            ? <img src={frame.dataUrl} alt={frame.caption} className="block object-contain bg-black rounded-lg max-w-80 max-h-80" />
+            : <div className="flex items-center justify-center w-40 h-24 text-xs text-gray-500 bg-gray-800 rounded-lg">Not rendered</div>}
+          <figcaption className="text-xs text-gray-400">{frame.caption}</figcaption>
+        </figure>
+      ))}
+    </div>
+  </div>
+)
+
+const ClipDetail = ({ clip, syncing, onClose, onSync, onDelete }: {
+  clip: LibraryClip
+  syncing: boolean
+  onClose: () => void
+  onSync: () => void
+  onDelete: () => void
+}) => {
+  const [showAnnotations, setShowAnnotations] = useState(true)
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center p-6 bg-black/70" onClick={onClose}>
+      <div className="flex gap-4 w-full max-w-6xl max-h-full p-4 overflow-hidden bg-gray-900 rounded-xl shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex-1 min-w-0 overflow-auto">
+          <ClipPreview clip={clip} showAnnotations={showAnnotations} actualSize className="w-full min-h-[60vh] rounded-lg" />
+          {clip.frames?.length > 0 && (
+            <FrameRow
+              title="Breakpoints"
+              frames={clip.frames.map((frame) => ({
+                key: String(frame.width),
+                dataUrl: frame.base64_file,
+                caption: `${frame.width}px · ${frame.context.viewport.width}×${frame.context.viewport.height} @${frame.context.viewport.devicePixelRatio}x`
+              }))}
+            />
+          )}
+          {clip.states?.length > 0 && (
+            <FrameRow
+              title="States"
+              frames={clip.states.map((capture) => ({ key: capture.state, dataUrl: capture.base64_file, caption: capture.state }))}
+            />
+          )}
+        </div>
+        <div className="flex flex-col gap-3 overflow-auto w-80 shrink-0">
+          <div className="text-sm font-semibold">{clip.title || "Untitled"}</div>
+          <a href={clip.url} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-400 break-all hover:underline">{clip.url}</a>
+          <div className="text-xs text-gray-400">
+            {new Date(clip.createdAt).toLocaleString()} · {MODE_LABELS[clip.mode]}
+            {clip.imageScale ? ` · @${Number(clip.imageScale.toFixed(2))}x` : ""}
+          </div>
+          {clip.annotations?.length > 0 && (
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input type="checkbox" checked={showAnnotations} onChange={(e) => setShowAnnotations(e.target.checked)} />
+              Show annotations ({clip.annotations.length})
+            </label>
+          )}
+          {clip.description && <div className="text-xs text-gray-300 whitespace-pre-wrap">{clip.description}</div>}
+          {clip.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {clip.tags.map((tag) => <span key={tag} className="px-2 py-0.5 text-xs bg-gray-800 rounded-full">{tag}</span>)}
+            </div>
+          )}
+          {clip.context && (
+            <details className="text-xs">
+              <summary className="text-gray-400 cursor-pointer">Context</summary>
+              <pre className="p-2 mt-1 overflow-auto font-mono text-gray-300 bg-gray-800 rounded-lg max-h-80">{JSON.stringify(clip.context, null, 2)}</pre>
+            </details>
+          )}
+          <div className="flex flex-col gap-2 mt-auto">
+            {clip.syncedUuid && clip.syncedUrl ? (
+              <a
+                href={clip.syncedUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-3 py-2 text-xs text-center text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+              >
+                View in frontend →
+              </a>
+            ) : clip.syncedUuid ? (
+              <div className="text-xs text-green-400">Synced ({clip.syncedUuid})</div>
+            ) : (
+              <button className="px-3 py-2 text-xs text-white bg-blue-600 border-0 rounded-lg cursor-pointer disabled:opacity-60" disabled={syncing} onClick={onSync}>
+                {syncing ? "Queued for upload…" : "Sync to backend"}
+              </button>
+            )}
+            <div className="flex flex-row gap-2">
+              <button className="flex-1 px-3 py-2 text-xs text-gray-300 border border-gray-600 rounded-lg cursor-pointer hover:bg-gray-800" onClick={onDelete}>Delete</button>
+              <button className="flex-1 px-3 py-2 text-xs text-gray-300 border border-gray-600 rounded-lg cursor-pointer hover:bg-gray-800" onClick={onClose}>Close</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
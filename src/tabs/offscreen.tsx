@@ -0,0 +1,30 @@
+// src/tabs/offscreen.tsx
+// Offscreen document (tabs/offscreen.html) for tab recordings, created and closed by the
+// background worker. It has no UI, it only answers the OFFSCREEN_* messages, see lib/recording.ts.
+
+import { finishRecording, recordTab } from "~lib/recording"
+
+chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+  if (msg?.target !== "offscreen") return
+
+  if (msg.type === "OFFSCREEN_RECORD_START") {
+    recordTab(msg.streamId, msg.request)
+      .then(() => sendResponse({ ok: true }))
+      .catch((error) => {
+        console.error("❌ Failed to start recording:", error)
+        sendResponse({ ok: false, error: error.message })
+      })
+    return true // async
+  }
+
+  if (msg.type === "OFFSCREEN_RECORD_STOP") {
+    finishRecording()
+      .then((recording) => sendResponse({ ok: true, recording }))
+      .catch((error) => sendResponse({ ok: false, error: error.message }))
+    return true // async
+  }
+})
+
+const Offscreen = () => null
+
+export default Offscreen